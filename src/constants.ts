@@ -26,7 +26,60 @@ export const K_MAX_LINE_LEN = 2083 * 8; // 16,664 bytes
 export const K_BROWSER_MAX_LINE_LEN = 2083;
 
 /**
- * Allow for typos such as DISALOW in robots.txt.
+ * Maximum robots.txt body size parsed by Google. RFC 9309 section 2.5 requires
+ * crawlers to parse at least the first 500 KiB. Only enforced when passed as
+ * ParseOptions.maxBodySize.
+ */
+export const K_MAX_BODY_SIZE = 500 * 1024; // 512,000 bytes
+
+/**
+ * Default cap for crawl-delay values, in seconds. Larger values are clamped
+ * by ParsedRobots.getCrawlDelay(), so a typo such as 'Crawl-delay: 86400'
+ * cannot stall a crawl.
+ */
+export const K_MAX_CRAWL_DELAY = 60;
+
+/**
+ * Number of consecutive redirects RobotsFetcher follows for a robots.txt.
+ * RFC 9309 section 2.3.1.2 requires following at least five.
+ */
+export const K_MAX_REDIRECTS = 5;
+
+/**
+ * How long a robots.txt may be unreachable (server errors or network
+ * failures) before RobotsFetcher treats it as unavailable, in milliseconds.
+ * RFC 9309 section 2.3.1.4 allows this after 30 days.
+ */
+export const K_MAX_UNREACHABLE_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Longest time RobotsCache uses a robots.txt without fetching it again, in
+ * milliseconds, whatever its caching headers say. RFC 9309 section 2.4 says
+ * crawlers SHOULD NOT use a cached robots.txt for more than 24 hours.
+ */
+export const K_MAX_CACHE_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * How long RobotsCache waits before fetching an unreachable robots.txt
+ * again, in milliseconds.
+ */
+export const K_UNREACHABLE_RETRY_AGE = 5 * 60 * 1000;
+
+/**
+ * Default number of origins RobotsCache keeps.
+ */
+export const K_CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Version of the ParsedRobots snapshot format written by toJSON() and
+ * toBinary(). Snapshots of other versions are rejected by fromJSON() and
+ * fromBinary(); re-parse the robots.txt instead.
+ */
+export const K_SNAPSHOT_VERSION = 1;
+
+/**
+ * Allow for typos such as DISALOW in robots.txt. Default for
+ * ParseOptions.allowFrequentTypos.
  */
 export const K_ALLOW_FREQUENT_TYPOS = true;
 
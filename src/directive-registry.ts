@@ -0,0 +1,145 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { DirectiveScope, RobotsDirective } from "./types.js";
+
+/**
+ * Definition of a directive that is not part of the core robots.txt
+ * protocol, such as crawl-delay or clean-param.
+ */
+export interface DirectiveDefinition<T = string> {
+	/** Canonical field name, e.g. 'crawl-delay'. */
+	name: string;
+	/** Alternative field names for the same directive. */
+	aliases?: readonly string[];
+	/**
+	 * Misspellings accepted for the directive. Ignored when
+	 * ParseOptions.allowFrequentTypos is false.
+	 */
+	typos?: readonly string[];
+	/** Whether the directive applies to its user-agent group or the file. */
+	scope: DirectiveScope;
+	/**
+	 * Converts the raw value. Return undefined for invalid values. Without a
+	 * parser the raw value is passed on as is.
+	 */
+	parseValue?: (rawValue: string) => T | undefined;
+}
+
+/**
+ * Result of looking up a key in a DirectiveRegistry.
+ */
+export interface DirectiveLookupResult {
+	definition: DirectiveDefinition<unknown>;
+	isTypo: boolean;
+}
+
+/**
+ * Returns true if the parsed directive belongs to the given definition,
+ * narrowing its value type.
+ *
+ * @example
+ * ```typescript
+ * if (isDirective(directive, crawlDelay)) {
+ *   directive.value; // number | undefined
+ * }
+ * ```
+ */
+export function isDirective<T>(
+	directive: RobotsDirective,
+	definition: DirectiveDefinition<T>,
+): directive is RobotsDirective<T> {
+	return directive.name === definition.name;
+}
+
+/**
+ * A set of directives recognised by the parser in addition to User-agent,
+ * Allow, Disallow and Sitemap. Pass it as ParseOptions.directives.
+ *
+ * Field names, aliases and typos are matched case-insensitively and exactly,
+ * never by prefix. Exact names of the built-in keys take precedence over
+ * registered directives, but registered directives take precedence over the
+ * built-in prefix matching, so e.g. 'disallow-ai-training' can be registered.
+ *
+ * @example
+ * ```typescript
+ * const directives = new DirectiveRegistry();
+ * const crawlDelay = directives.register({
+ *   name: "crawl-delay",
+ *   scope: "group",
+ *   parseValue: (value) => Number.parseFloat(value),
+ * });
+ * parseRobotsTxt(robotsTxt, handler, { directives });
+ * ```
+ */
+export class DirectiveRegistry {
+	private readonly definitions: DirectiveDefinition<unknown>[] = [];
+	private readonly byKey: Map<string, DirectiveLookupResult> = new Map();
+
+	/**
+	 * Register a directive. Throws if one of its names is already registered.
+	 *
+	 * @returns The definition, for use with isDirective()
+	 */
+	public register<T>(
+		definition: DirectiveDefinition<T>,
+	): DirectiveDefinition<T> {
+		const entries: [string, boolean][] = [
+			[definition.name, false],
+			...(definition.aliases ?? []).map((alias): [string, boolean] => [
+				alias,
+				false,
+			]),
+			...(definition.typos ?? []).map((typo): [string, boolean] => [
+				typo,
+				true,
+			]),
+		];
+
+		for (const [key] of entries) {
+			if (this.byKey.has(key.toLowerCase())) {
+				throw new Error(`Directive key already registered: ${key}`);
+			}
+		}
+		for (const [key, isTypo] of entries) {
+			this.byKey.set(key.toLowerCase(), { definition, isTypo });
+		}
+		this.definitions.push(definition);
+		return definition;
+	}
+
+	/**
+	 * Find the directive for a key.
+	 *
+	 * @param key - The key as written in the robots.txt
+	 * @param allowTypos - Whether to accept the directives' typos
+	 */
+	public lookup(
+		key: string,
+		allowTypos: boolean,
+	): DirectiveLookupResult | undefined {
+		const result = this.byKey.get(key.toLowerCase());
+		if (!result || (result.isTypo && !allowTypos)) {
+			return undefined;
+		}
+		return result;
+	}
+
+	/**
+	 * Get all registered directive definitions in registration order.
+	 */
+	public getDefinitions(): DirectiveDefinition<unknown>[] {
+		return [...this.definitions];
+	}
+}
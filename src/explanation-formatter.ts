@@ -0,0 +1,142 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { ExplainedRule, UrlExplanation } from "./parsed-robots.js";
+
+/**
+ * Options for formatExplanation().
+ */
+export interface ExplanationFormatOptions {
+	/** Produce Markdown (bold verdict, escaped text) instead of plain text */
+	markdown?: boolean;
+}
+
+/**
+ * Escape characters with a meaning in Markdown inline text.
+ */
+function escapeMarkdown(text: string): string {
+	return text.replace(/[\\`*_[\]<>#|]/g, "\\$&");
+}
+
+/**
+ * Wrap text in a code span. In Markdown the fence is made longer than any
+ * run of backticks in the text.
+ */
+function code(text: string, markdown: boolean): string {
+	if (!markdown) return `\`${text}\``;
+	const runs = text.match(/`+/g) ?? [];
+	const fence = "`".repeat(Math.max(0, ...runs.map((r) => r.length)) + 1);
+	const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+	return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function chars(count: number): string {
+	return count === 1 ? "1 char" : `${count} chars`;
+}
+
+/**
+ * Describe a rule, e.g. "line 12 `Disallow: /private/`".
+ */
+function describeRule(entry: ExplainedRule, markdown: boolean): string {
+	const { rule } = entry;
+	const directive = `${rule.isAllow ? "Allow" : "Disallow"}: ${rule.pattern}`;
+	const derived = rule.isDerived ? " (from index.html normalization)" : "";
+	return `line ${rule.lineNumber} ${code(directive, markdown)}${derived}`;
+}
+
+/**
+ * Whether the priorities of the rules are their pattern lengths, as with the
+ * default longest-match strategy. Otherwise the raw priorities are shown,
+ * e.g. the doubled ones of 'disallow-wins-ties'. All rules of a sentence are
+ * described the same way, so that their numbers compare.
+ */
+function prioritiesAreLengths(...entries: ExplainedRule[]): boolean {
+	return entries.every((entry) => entry.priority === entry.rule.pattern.length);
+}
+
+/**
+ * Describe the priority of a rule: its length in characters, or the raw
+ * priority.
+ */
+function describePriority(entry: ExplainedRule, inChars: boolean): string {
+	return inChars ? chars(entry.priority) : `priority ${entry.priority}`;
+}
+
+/**
+ * Describe why a rule won on its own: the longest match with the default
+ * strategy, or the highest priority with others.
+ */
+function describeMatch(entry: ExplainedRule, inChars: boolean): string {
+	return inChars
+		? `longest match, ${chars(entry.priority)}`
+		: `highest priority, ${entry.priority}`;
+}
+
+/**
+ * Turn an explanation from ParsedRobots.explainUrl() into a plain-English
+ * sentence, e.g. "Blocked for Googlebot by line 12 `Disallow: /private/`
+ * (longest match, 9 chars) which outranks line 14 `Allow: /priv` (5 chars)".
+ *
+ * @param explanation - The explanation to format
+ * @param options - Formatting options, e.g. Markdown output
+ * @returns The formatted explanation
+ */
+export function formatExplanation(
+	explanation: UrlExplanation,
+	options: ExplanationFormatOptions = {},
+): string {
+	const markdown = options.markdown ?? false;
+	const { result, winner, runnerUp } = explanation;
+
+	const agents = explanation.userAgents.join(", ");
+	const verdict = result.allowed ? "Allowed" : "Blocked";
+	const subject = `${markdown ? `**${verdict}**` : verdict} for ${
+		markdown ? escapeMarkdown(agents) : agents
+	}`;
+	const path = code(explanation.path, markdown);
+
+	// Why the rules of these groups apply
+	let groups = "";
+	if (explanation.groupSelection === "global") {
+		groups = `, using the ${code("*", markdown)} group since no group names ${
+			markdown ? escapeMarkdown(agents) : agents
+		}`;
+	}
+
+	switch (explanation.reason) {
+		case "no-rules":
+			return `${subject}: the robots.txt has no rules for it or for ${code("*", markdown)}`;
+		case "no-match":
+			return `${subject}: no rule matches ${path}${groups}`;
+		case "zero-priority":
+			return `${subject}: only rules that never block, such as an empty Disallow, match ${path}${groups}`;
+	}
+
+	// The remaining reasons always have a winner
+	const won = `${subject} by ${describeRule(winner!, markdown)}`;
+	switch (explanation.reason) {
+		case "first-match":
+			return `${won} (first matching rule)${groups}`;
+		case "tie-allow-wins": {
+			const inChars = prioritiesAreLengths(winner!, runnerUp!);
+			return `${won} which ties with ${describeRule(runnerUp!, markdown)} (${describePriority(winner!, inChars)} each); Allow wins ties${groups}`;
+		}
+		case "higher-priority": {
+			const inChars = prioritiesAreLengths(winner!, runnerUp!);
+			return `${won} (${describeMatch(winner!, inChars)}) which outranks ${describeRule(runnerUp!, markdown)} (${describePriority(runnerUp!, inChars)})${groups}`;
+		}
+		default:
+			return `${won} (${describeMatch(winner!, prioritiesAreLengths(winner!))})${groups}`;
+	}
+}
@@ -41,6 +41,28 @@
 // Main parser function
 export { parseRobotsTxt } from "./parser.js";
 
+// Streaming parser
+export {
+	createRobotsStreamParser,
+	createRobotsTransformStream,
+	parseRobotsTxtStream,
+	type RobotsStreamParser,
+} from "./stream-parser.js";
+
+// Lossless syntax tree and formatting
+export {
+	parseRobotsTxtSyntaxTree,
+	printRobotsTxtSyntaxTree,
+	type LineEnding,
+	type RobotsSyntaxLine,
+	type RobotsSyntaxTree,
+	type SourceSpan,
+} from "./syntax-tree.js";
+export {
+	formatRobotsTxt,
+	type RobotsFormatOptions,
+} from "./robots-formatter.js";
+
 // Main matcher class
 export { RobotsMatcher } from "./matcher.js";
 
@@ -48,8 +70,69 @@ export { RobotsMatcher } from "./matcher.js";
 export {
 	ParsedRobots,
 	type UrlCheckResult,
+	type CheckOptions,
 	type ParsedRule,
+	type CrawlDelayResult,
+	type SitemapEntry,
+	type RobotsGroup,
+	type GroupUserAgent,
+	type ExplainedRule,
+	type GroupSelection,
+	type DecisionReason,
+	type UrlExplanation,
+	type ParsedRobotsSnapshot,
+	type GroupSnapshot,
+	type CrawlDelaySnapshot,
+	type SitemapLine,
 } from "./parsed-robots.js";
+export {
+	formatExplanation,
+	type ExplanationFormatOptions,
+} from "./explanation-formatter.js";
+
+// Fetching
+export {
+	getRobotsOrigin,
+	getRobotsTxtUrl,
+	RobotsFetcher,
+	type FetchFunction,
+	type RobotsFetcherOptions,
+	type RobotsFetchOptions,
+	type RobotsFetchOutcome,
+	type RobotsFetchReason,
+	type RobotsFetchResult,
+} from "./robots-fetcher.js";
+export {
+	RobotsCache,
+	type RobotsCacheEntry,
+	type RobotsCacheOptions,
+	type RobotsCacheResult,
+	type RobotsCacheStatus,
+} from "./robots-cache.js";
+export {
+	FileRobotsCacheStorage,
+	type FileRobotsCacheStorageOptions,
+	type RobotsCacheCompaction,
+	type RobotsCacheRecord,
+	type RobotsCacheStorage,
+} from "./robots-cache-storage.js";
+
+// Origin-scoped checking
+export {
+	RobotsPolicy,
+	RobotsPolicyRegistry,
+	type CrossOriginHandling,
+	type PolicyCheckResult,
+	type RobotsPolicyOptions,
+} from "./robots-policy.js";
+
+// Polite fetching
+export {
+	createPoliteFetch,
+	RobotsDisallowedError,
+	type PoliteFetch,
+	type PoliteFetchOptions,
+} from "./polite-fetch.js";
 
 // Reporting handler
 export { RobotsParsingReporter } from "./reporter.js";
@@ -61,23 +144,52 @@ export {
 	RobotsTagName,
 	createLineMetadata,
 	createRobotsParsedLine,
+	type DirectiveScope,
 	type LineMetadata,
+	type ParseOptions,
+	type RobotsBody,
+	type RobotsDirective,
 	type RobotsParsedLine,
 } from "./types.js";
 
+// Custom directives
+export {
+	DirectiveRegistry,
+	isDirective,
+	type DirectiveDefinition,
+	type DirectiveLookupResult,
+} from "./directive-registry.js";
+
 // Match strategy
 export {
+	DisallowWinsTiesRobotsMatchStrategy,
+	getMatchStrategy,
 	LongestMatchRobotsMatchStrategy,
+	OriginalRobotsMatchStrategy,
+	YandexRobotsMatchStrategy,
+	type MatchStrategyName,
 	type RobotsMatchStrategy,
 } from "./match-strategy.js";
 
 // Utilities
-export { getPathParamsQuery, maybeEscapePattern } from "./url-utils.js";
-export { matches } from "./pattern-matcher.js";
+export {
+	getPathParamsQuery,
+	maybeEscapePattern,
+	maybeEscapePatternBytes,
+} from "./url-utils.js";
+export { CompiledPattern, matches } from "./pattern-matcher.js";
 
 // Constants
 export {
 	K_MAX_LINE_LEN,
+	K_MAX_BODY_SIZE,
+	K_MAX_CRAWL_DELAY,
+	K_SNAPSHOT_VERSION,
+	K_MAX_REDIRECTS,
+	K_MAX_UNREACHABLE_AGE,
+	K_MAX_CACHE_AGE,
+	K_UNREACHABLE_RETRY_AGE,
+	K_CACHE_MAX_ENTRIES,
 	K_ALLOW_FREQUENT_TYPOS,
 	K_UNSUPPORTED_TAGS,
 } from "./constants.js";
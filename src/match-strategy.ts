@@ -12,7 +12,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { matches } from "./pattern-matcher.js";
+import { matches, type CompiledPattern } from "./pattern-matcher.js";
 
 /**
  * A RobotsMatchStrategy defines a strategy for matching individual lines in a
@@ -44,8 +44,52 @@ export interface RobotsMatchStrategy {
 	 * @returns Match priority (pattern length on match, -1 on no match)
 	 */
 	matchDisallow(path: string, pattern: string): number;
+
+	/**
+	 * Optional variant of matchAllow() for a pattern compiled once by
+	 * ParsedRobots. Must return the same priority as matchAllow().
+	 * @param path - The URL path to match
+	 * @param pattern - The compiled Allow pattern
+	 */
+	matchAllowCompiled?(path: string, pattern: CompiledPattern): number;
+
+	/**
+	 * Optional variant of matchDisallow() for a pattern compiled once by
+	 * ParsedRobots. Must return the same priority as matchDisallow().
+	 * @param path - The URL path to match
+	 * @param pattern - The compiled Disallow pattern
+	 */
+	matchDisallowCompiled?(path: string, pattern: CompiledPattern): number;
+
+	/**
+	 * If true, a pattern only ever matches paths starting with its literal
+	 * prefix (CompiledPattern.literalPrefix), so ParsedRobots may skip other
+	 * rules through its prefix index.
+	 */
+	readonly requiresLiteralPrefix?: boolean;
+
+	/**
+	 * If true, the first rule (in file order) that matches with a positive
+	 * priority decides and later rules for the agent are ignored. Otherwise
+	 * the highest priority decides, with Allow winning ties.
+	 */
+	readonly firstMatchWins?: boolean;
 }
 
+/**
+ * Names of the shipped match strategies, for selecting one by name:
+ *
+ * - 'longest-match': Google (and Bing), LongestMatchRobotsMatchStrategy
+ * - 'original-1994': OriginalRobotsMatchStrategy
+ * - 'yandex': YandexRobotsMatchStrategy
+ * - 'disallow-wins-ties': DisallowWinsTiesRobotsMatchStrategy
+ */
+export type MatchStrategyName =
+	| "longest-match"
+	| "original-1994"
+	| "yandex"
+	| "disallow-wins-ties";
+
 /**
  * Implements the default robots.txt matching strategy. The maximum number of
  * characters matched by a pattern is returned as its match priority.
@@ -54,8 +98,13 @@ export interface RobotsMatchStrategy {
  * longest-match strategy is what webmasters assume when writing directives.
  * For example, in case of conflicting matches (both Allow and Disallow),
  * the longest match is the one the user wants.
+ *
+ * Subclasses changing matchAllow()/matchDisallow() must also change the
+ * compiled variants and requiresLiteralPrefix, which ParsedRobots relies on.
  */
 export class LongestMatchRobotsMatchStrategy implements RobotsMatchStrategy {
+	public readonly requiresLiteralPrefix = true;
+
 	public matchAllow(path: string, pattern: string): number {
 		return matches(path, pattern) ? pattern.length : -1;
 	}
@@ -63,4 +112,168 @@ export class LongestMatchRobotsMatchStrategy implements RobotsMatchStrategy {
 	public matchDisallow(path: string, pattern: string): number {
 		return matches(path, pattern) ? pattern.length : -1;
 	}
+
+	public matchAllowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path) ? pattern.pattern.length : -1;
+	}
+
+	public matchDisallowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path) ? pattern.pattern.length : -1;
+	}
+}
+
+/**
+ * Implements the original 1994 robots.txt standard: patterns are plain
+ * prefixes ('*' and '$' have no special meaning) and the first matching rule
+ * for the agent decides, regardless of its length.
+ */
+export class OriginalRobotsMatchStrategy implements RobotsMatchStrategy {
+	public readonly firstMatchWins = true;
+	public readonly requiresLiteralPrefix = true;
+
+	public matchAllow(path: string, pattern: string): number {
+		return path.startsWith(pattern) ? pattern.length : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return path.startsWith(pattern) ? pattern.length : -1;
+	}
+}
+
+/**
+ * Implements Yandex's matching: rules are sorted by length and the longest
+ * matching one decides, Allow winning over a Disallow of the same length.
+ * Yandex implicitly appends '*' to every pattern, so trailing '*' characters
+ * don't count towards the length ('/fish*' ties with '/fish').
+ */
+export class YandexRobotsMatchStrategy implements RobotsMatchStrategy {
+	public readonly requiresLiteralPrefix = true;
+
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern)
+			? YandexRobotsMatchStrategy.patternLength(pattern)
+			: -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern)
+			? YandexRobotsMatchStrategy.patternLength(pattern)
+			: -1;
+	}
+
+	public matchAllowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path)
+			? YandexRobotsMatchStrategy.patternLength(pattern.pattern)
+			: -1;
+	}
+
+	public matchDisallowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path)
+			? YandexRobotsMatchStrategy.patternLength(pattern.pattern)
+			: -1;
+	}
+
+	/**
+	 * Length of a pattern without trailing '*'. A pattern of only '*' still
+	 * matches everything with the lowest positive priority.
+	 */
+	private static patternLength(pattern: string): number {
+		if (pattern.length === 0) return 0;
+		let end = pattern.length;
+		while (end > 0 && pattern[end - 1] === "*") {
+			end--;
+		}
+		return Math.max(end, 1);
+	}
+}
+
+/**
+ * Longest match like LongestMatchRobotsMatchStrategy, except that a Disallow
+ * wins over an Allow of the same length. Priorities are doubled so that a
+ * Disallow can rank between two Allow lengths.
+ */
+export class DisallowWinsTiesRobotsMatchStrategy implements RobotsMatchStrategy {
+	public readonly requiresLiteralPrefix = true;
+
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? pattern.length * 2 : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern)
+			? DisallowWinsTiesRobotsMatchStrategy.disallowPriority(pattern)
+			: -1;
+	}
+
+	public matchAllowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path) ? pattern.pattern.length * 2 : -1;
+	}
+
+	public matchDisallowCompiled(path: string, pattern: CompiledPattern): number {
+		return pattern.matches(path)
+			? DisallowWinsTiesRobotsMatchStrategy.disallowPriority(pattern.pattern)
+			: -1;
+	}
+
+	/**
+	 * Priority of a matching Disallow. An empty pattern keeps priority 0 so it
+	 * still never decides.
+	 */
+	private static disallowPriority(pattern: string): number {
+		return pattern.length === 0 ? 0 : pattern.length * 2 + 1;
+	}
+}
+
+/**
+ * Create a shipped match strategy by name.
+ *
+ * @param name - The strategy name, e.g. 'yandex'
+ * @returns A new strategy instance
+ */
+export function getMatchStrategy(name: MatchStrategyName): RobotsMatchStrategy {
+	switch (name) {
+		case "longest-match":
+			return new LongestMatchRobotsMatchStrategy();
+		case "original-1994":
+			return new OriginalRobotsMatchStrategy();
+		case "yandex":
+			return new YandexRobotsMatchStrategy();
+		case "disallow-wins-ties":
+			return new DisallowWinsTiesRobotsMatchStrategy();
+		default:
+			throw new Error(`Unknown match strategy: ${String(name)}`);
+	}
+}
+
+/**
+ * Resolve the matchStrategy parse option to a strategy instance.
+ */
+export function resolveMatchStrategy(
+	strategy: RobotsMatchStrategy | MatchStrategyName | undefined,
+): RobotsMatchStrategy {
+	if (strategy === undefined) {
+		return new LongestMatchRobotsMatchStrategy();
+	}
+	return typeof strategy === "string" ? getMatchStrategy(strategy) : strategy;
+}
+
+/**
+ * Get the name of a shipped match strategy instance, or null for a custom
+ * strategy (including subclasses of the shipped ones).
+ */
+export function getMatchStrategyName(
+	strategy: RobotsMatchStrategy,
+): MatchStrategyName | null {
+	switch (strategy.constructor) {
+		case LongestMatchRobotsMatchStrategy:
+			return "longest-match";
+		case OriginalRobotsMatchStrategy:
+			return "original-1994";
+		case YandexRobotsMatchStrategy:
+			return "yandex";
+		case DisallowWinsTiesRobotsMatchStrategy:
+			return "disallow-wins-ties";
+		default:
+			return null;
+	}
 }
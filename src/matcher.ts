@@ -14,12 +14,17 @@
 
 import { K_NO_MATCH_PRIORITY } from "./constants.js";
 import {
-	LongestMatchRobotsMatchStrategy,
+	resolveMatchStrategy,
 	type RobotsMatchStrategy,
 } from "./match-strategy.js";
 import { ParsedRobots, type UrlCheckResult } from "./parsed-robots.js";
 import { parseRobotsTxt } from "./parser.js";
-import { RobotsParseHandler, type LineMetadata } from "./types.js";
+import {
+	RobotsParseHandler,
+	type LineMetadata,
+	type ParseOptions,
+	type RobotsBody,
+} from "./types.js";
 import { getPathParamsQuery } from "./url-utils.js";
 
 /**
@@ -98,19 +103,27 @@ export class RobotsMatcher extends RobotsParseHandler {
 	private userAgents: string[] = [];
 
 	private matchStrategy: RobotsMatchStrategy;
+	private readonly parseOptions: ParseOptions;
 
-	constructor() {
+	/**
+	 * @param parseOptions - Options applied whenever this matcher parses a
+	 *   robots.txt, e.g. strict key matching, the maximum body size or the
+	 *   match strategy
+	 */
+	constructor(parseOptions: ParseOptions = {}) {
 		super();
 		this.allow = { global: new Match(), specific: new Match() };
 		this.disallowMatch = { global: new Match(), specific: new Match() };
-		this.matchStrategy = new LongestMatchRobotsMatchStrategy();
+		this.matchStrategy = resolveMatchStrategy(parseOptions.matchStrategy);
+		this.parseOptions = parseOptions;
 	}
 
 	/**
 	 * Parse robots.txt once for efficient repeated checks.
 	 * Use when checking many URLs or multiple user-agents against the same robots.txt.
 	 *
-	 * @param robotsBody - The robots.txt content to parse
+	 * @param robotsBody - The robots.txt content to parse (text or raw bytes)
+	 * @param options - Parse options, e.g. the maximum body size
 	 * @returns A ParsedRobots instance ready for bulk URL checking
 	 *
 	 * @example
@@ -119,17 +132,21 @@ export class RobotsMatcher extends RobotsParseHandler {
 	 * const results = parsed.checkUrls('Googlebot', urls);
 	 * ```
 	 */
-	public static parse(robotsBody: string): ParsedRobots {
-		return ParsedRobots.parse(robotsBody);
+	public static parse(
+		robotsBody: RobotsBody,
+		options: ParseOptions = {},
+	): ParsedRobots {
+		return ParsedRobots.parse(robotsBody, options);
 	}
 
 	/**
-	 * Bulk check URLs against robots.txt for a single user-agent.
-	 * More efficient than repeated oneAgentAllowedByRobots() calls.
+	 * Bulk check URLs against robots.txt for one or more user-agents.
+	 * More efficient than repeated allowedByRobots() calls.
 	 *
-	 * @param robotsBody - The robots.txt content
-	 * @param userAgent - The user-agent to check
+	 * @param robotsBody - The robots.txt content (text or raw bytes)
+	 * @param userAgents - The user-agent(s) to check
 	 * @param urls - Array of URLs to check (must be %-encoded per RFC3986)
+	 * @param options - Parse options, e.g. the maximum body size
 	 * @returns Array of results with detailed match information
 	 *
 	 * @example
@@ -141,11 +158,12 @@ export class RobotsMatcher extends RobotsParseHandler {
 	 * ```
 	 */
 	public static batchCheck(
-		robotsBody: string,
-		userAgent: string,
+		robotsBody: RobotsBody,
+		userAgents: string | string[],
 		urls: string[],
+		options: ParseOptions = {},
 	): UrlCheckResult[] {
-		return ParsedRobots.parse(robotsBody).checkUrls(userAgent, urls);
+		return ParsedRobots.parse(robotsBody, options).checkUrls(userAgents, urls);
 	}
 
 	/**
@@ -188,13 +206,13 @@ export class RobotsMatcher extends RobotsParseHandler {
 	 * Invalid or malformed URLs are handled gracefully - if the path cannot be
 	 * extracted, it defaults to "/" which typically allows access.
 	 *
-	 * @param robotsBody - The robots.txt content to parse
+	 * @param robotsBody - The robots.txt content to parse (text or raw bytes)
 	 * @param userAgents - Array of user-agent strings to check
 	 * @param url - The URL to check (should be %-encoded per RFC3986)
 	 * @returns true if access is allowed, false if disallowed
 	 */
 	public allowedByRobots(
-		robotsBody: string,
+		robotsBody: RobotsBody,
 		userAgents: string[],
 		url: string,
 	): boolean {
@@ -213,19 +231,26 @@ export class RobotsMatcher extends RobotsParseHandler {
 	 * Invalid or malformed URLs are handled gracefully - if the path cannot be
 	 * extracted, it defaults to "/" which typically allows access.
 	 *
-	 * @param robotsTxt - The robots.txt content to parse
+	 * @param robotsTxt - The robots.txt content to parse (text or raw bytes)
 	 * @param userAgent - The user-agent string to check
 	 * @param url - The URL to check (should be %-encoded per RFC3986)
 	 * @returns true if access is allowed, false if disallowed
 	 */
 	public oneAgentAllowedByRobots(
-		robotsTxt: string,
+		robotsTxt: RobotsBody,
 		userAgent: string,
 		url: string,
 	): boolean {
 		return this.allowedByRobots(robotsTxt, [userAgent], url);
 	}
 
+	/**
+	 * Returns the parse options this matcher was created with.
+	 */
+	public getParseOptions(): ParseOptions {
+		return this.parseOptions;
+	}
+
 	/**
 	 * Returns true if we are disallowed from crawling a matching URI.
 	 */
@@ -313,6 +338,19 @@ export class RobotsMatcher extends RobotsParseHandler {
 		this.userAgents = userAgents;
 	}
 
+	/**
+	 * Returns true if a first-match strategy already has a deciding match for
+	 * the current group, so later rules of the group are ignored.
+	 */
+	private decidedByFirstMatch(): boolean {
+		if (!this.matchStrategy.firstMatchWins) return false;
+		const level = this.seenSpecificAgent ? "specific" : "global";
+		return (
+			this.allow[level].getPriority() > 0 ||
+			this.disallowMatch[level].getPriority() > 0
+		);
+	}
+
 	/**
 	 * Returns true if any user-agent was seen.
 	 */
@@ -369,6 +407,7 @@ export class RobotsMatcher extends RobotsParseHandler {
 	public handleAllow(lineNum: number, value: string): void {
 		if (!this.seenAnyAgent()) return;
 		this.seenSeparator = true;
+		if (this.decidedByFirstMatch()) return;
 
 		const priority = this.matchStrategy.matchAllow(this.path, value);
 		if (priority >= 0) {
@@ -401,6 +440,7 @@ export class RobotsMatcher extends RobotsParseHandler {
 	public handleDisallow(lineNum: number, value: string): void {
 		if (!this.seenAnyAgent()) return;
 		this.seenSeparator = true;
+		if (this.decidedByFirstMatch()) return;
 
 		const priority = this.matchStrategy.matchDisallow(this.path, value);
 		if (priority >= 0) {
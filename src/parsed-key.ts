@@ -13,6 +13,10 @@
 // limitations under the License.
 
 import { K_ALLOW_FREQUENT_TYPOS } from "./constants.js";
+import type {
+	DirectiveDefinition,
+	DirectiveRegistry,
+} from "./directive-registry.js";
 import { KeyType } from "./types.js";
 
 /**
@@ -21,8 +25,15 @@ import { KeyType } from "./types.js";
 export interface ParsedKeyResult {
 	type: KeyType;
 	isAcceptableTypo: boolean;
+	/**
+	 * The key only matched a known key by prefix, e.g. 'allowance' for 'allow'.
+	 * Also set in exact mode, where such keys are treated as unknown.
+	 */
+	isPrefixMatch: boolean;
 	/** For unknown keys, the original key text. */
 	unknownText?: string;
+	/** For custom keys, the matching registered directive. */
+	directive?: DirectiveDefinition<unknown>;
 }
 
 /**
@@ -34,38 +45,105 @@ export interface ParsedKeyResult {
 export class ParsedRobotsKey {
 	private type: KeyType = KeyType.UNKNOWN;
 	private keyText: string = "";
+	private readonly allowFrequentTypos: boolean;
+	private readonly exactKeyMatch: boolean;
+	private readonly directives: DirectiveRegistry | undefined;
+
+	/**
+	 * @param allowFrequentTypos - Whether to accept typo variants of key names
+	 * @param exactKeyMatch - Whether keys must equal a known key name (or typo)
+	 *   instead of merely starting with it
+	 * @param directives - Additional directives to recognise as custom keys
+	 */
+	constructor(
+		allowFrequentTypos: boolean = K_ALLOW_FREQUENT_TYPOS,
+		exactKeyMatch: boolean = false,
+		directives?: DirectiveRegistry,
+	) {
+		this.allowFrequentTypos = allowFrequentTypos;
+		this.exactKeyMatch = exactKeyMatch;
+		this.directives = directives;
+	}
 
 	/**
 	 * Parse given key text and return the key type and whether it's a typo.
 	 */
 	public parse(key: string): ParsedKeyResult {
 		this.keyText = "";
-		let isAcceptableTypo = false;
-
-		if (this.keyIsUserAgent(key)) {
-			isAcceptableTypo = this.isUserAgentTypo(key);
-			this.type = KeyType.USER_AGENT;
-		} else if (this.keyIsAllow(key)) {
-			isAcceptableTypo = false; // No typos accepted for allow
-			this.type = KeyType.ALLOW;
-		} else if (this.keyIsDisallow(key)) {
-			isAcceptableTypo = this.isDisallowTypo(key);
-			this.type = KeyType.DISALLOW;
-		} else if (this.keyIsSitemap(key)) {
-			isAcceptableTypo = this.isSitemapTypo(key);
-			this.type = KeyType.SITEMAP;
-		} else {
-			this.type = KeyType.UNKNOWN;
+
+		// Known key names are never prefixes of each other, so an exact match
+		// always agrees with the prefix match and only needs to be done first.
+		let result = this.classify(key, true);
+		let isPrefixMatch = false;
+
+		// Registered directives come before prefix matching, so that e.g.
+		// 'disallow-ai-training' is not read as 'disallow'.
+		if (result.type === KeyType.UNKNOWN && this.directives) {
+			const found = this.directives.lookup(key, this.allowFrequentTypos);
+			if (found) {
+				this.type = KeyType.CUSTOM;
+				return {
+					type: KeyType.CUSTOM,
+					isAcceptableTypo: found.isTypo,
+					isPrefixMatch: false,
+					directive: found.definition,
+				};
+			}
+		}
+
+		if (result.type === KeyType.UNKNOWN) {
+			const prefixResult = this.classify(key, false);
+			isPrefixMatch = prefixResult.type !== KeyType.UNKNOWN;
+			if (!this.exactKeyMatch) {
+				result = prefixResult;
+			}
+		}
+
+		this.type = result.type;
+		if (this.type === KeyType.UNKNOWN) {
 			this.keyText = key;
 		}
 
 		return {
 			type: this.type,
-			isAcceptableTypo,
+			isAcceptableTypo: result.isAcceptableTypo,
+			isPrefixMatch,
 			unknownText: this.type === KeyType.UNKNOWN ? this.keyText : undefined,
 		};
 	}
 
+	/**
+	 * Determine the key type, matching key names exactly or by prefix.
+	 */
+	private classify(
+		key: string,
+		exact: boolean,
+	): { type: KeyType; isAcceptableTypo: boolean } {
+		if (this.keyIsUserAgent(key, exact)) {
+			return {
+				type: KeyType.USER_AGENT,
+				isAcceptableTypo: this.isUserAgentTypo(key, exact),
+			};
+		}
+		if (this.keyIsAllow(key, exact)) {
+			// No typos accepted for allow
+			return { type: KeyType.ALLOW, isAcceptableTypo: false };
+		}
+		if (this.keyIsDisallow(key, exact)) {
+			return {
+				type: KeyType.DISALLOW,
+				isAcceptableTypo: this.isDisallowTypo(key, exact),
+			};
+		}
+		if (this.keyIsSitemap(key, exact)) {
+			return {
+				type: KeyType.SITEMAP,
+				isAcceptableTypo: this.isSitemapTypo(key, exact),
+			};
+		}
+		return { type: KeyType.UNKNOWN, isAcceptableTypo: false };
+	}
+
 	/**
 	 * Returns the type of key.
 	 */
@@ -90,18 +168,28 @@ export class ParsedRobotsKey {
 		return key.toLowerCase().startsWith(prefix.toLowerCase());
 	}
 
+	/**
+	 * Check if key matches a key name (case-insensitive), either exactly or
+	 * by prefix.
+	 */
+	private matchesName(key: string, name: string, exact: boolean): boolean {
+		return exact
+			? key.toLowerCase() === name.toLowerCase()
+			: this.startsWithIgnoreCase(key, name);
+	}
+
 	/**
 	 * Check if key is User-Agent or a typo variant.
 	 */
-	private keyIsUserAgent(key: string): boolean {
-		if (this.startsWithIgnoreCase(key, "user-agent")) {
+	private keyIsUserAgent(key: string, exact: boolean): boolean {
+		if (this.matchesName(key, "user-agent", exact)) {
 			return true;
 		}
-		if (K_ALLOW_FREQUENT_TYPOS) {
+		if (this.allowFrequentTypos) {
 			// Typo variants: "useragent", "user agent"
 			if (
-				this.startsWithIgnoreCase(key, "useragent") ||
-				this.startsWithIgnoreCase(key, "user agent")
+				this.matchesName(key, "useragent", exact) ||
+				this.matchesName(key, "user agent", exact)
 			) {
 				return true;
 			}
@@ -112,37 +200,37 @@ export class ParsedRobotsKey {
 	/**
 	 * Check if key is a User-Agent typo.
 	 */
-	private isUserAgentTypo(key: string): boolean {
-		if (!K_ALLOW_FREQUENT_TYPOS) return false;
+	private isUserAgentTypo(key: string, exact: boolean): boolean {
+		if (!this.allowFrequentTypos) return false;
 		return (
-			this.startsWithIgnoreCase(key, "useragent") ||
-			this.startsWithIgnoreCase(key, "user agent")
+			this.matchesName(key, "useragent", exact) ||
+			this.matchesName(key, "user agent", exact)
 		);
 	}
 
 	/**
 	 * Check if key is Allow.
 	 */
-	private keyIsAllow(key: string): boolean {
+	private keyIsAllow(key: string, exact: boolean): boolean {
 		// We don't support typos for the "allow" key.
-		return this.startsWithIgnoreCase(key, "allow");
+		return this.matchesName(key, "allow", exact);
 	}
 
 	/**
 	 * Check if key is Disallow or a typo variant.
 	 */
-	private keyIsDisallow(key: string): boolean {
-		if (this.startsWithIgnoreCase(key, "disallow")) {
+	private keyIsDisallow(key: string, exact: boolean): boolean {
+		if (this.matchesName(key, "disallow", exact)) {
 			return true;
 		}
-		if (K_ALLOW_FREQUENT_TYPOS) {
+		if (this.allowFrequentTypos) {
 			// Typo variants: dissallow, dissalow, disalow, diasllow, disallaw
 			if (
-				this.startsWithIgnoreCase(key, "dissallow") ||
-				this.startsWithIgnoreCase(key, "dissalow") ||
-				this.startsWithIgnoreCase(key, "disalow") ||
-				this.startsWithIgnoreCase(key, "diasllow") ||
-				this.startsWithIgnoreCase(key, "disallaw")
+				this.matchesName(key, "dissallow", exact) ||
+				this.matchesName(key, "dissalow", exact) ||
+				this.matchesName(key, "disalow", exact) ||
+				this.matchesName(key, "diasllow", exact) ||
+				this.matchesName(key, "disallaw", exact)
 			) {
 				return true;
 			}
@@ -153,27 +241,27 @@ export class ParsedRobotsKey {
 	/**
 	 * Check if key is a Disallow typo.
 	 */
-	private isDisallowTypo(key: string): boolean {
-		if (!K_ALLOW_FREQUENT_TYPOS) return false;
+	private isDisallowTypo(key: string, exact: boolean): boolean {
+		if (!this.allowFrequentTypos) return false;
 		return (
-			this.startsWithIgnoreCase(key, "dissallow") ||
-			this.startsWithIgnoreCase(key, "dissalow") ||
-			this.startsWithIgnoreCase(key, "disalow") ||
-			this.startsWithIgnoreCase(key, "diasllow") ||
-			this.startsWithIgnoreCase(key, "disallaw")
+			this.matchesName(key, "dissallow", exact) ||
+			this.matchesName(key, "dissalow", exact) ||
+			this.matchesName(key, "disalow", exact) ||
+			this.matchesName(key, "diasllow", exact) ||
+			this.matchesName(key, "disallaw", exact)
 		);
 	}
 
 	/**
 	 * Check if key is Sitemap or a typo variant.
 	 */
-	private keyIsSitemap(key: string): boolean {
-		if (this.startsWithIgnoreCase(key, "sitemap")) {
+	private keyIsSitemap(key: string, exact: boolean): boolean {
+		if (this.matchesName(key, "sitemap", exact)) {
 			return true;
 		}
-		if (K_ALLOW_FREQUENT_TYPOS) {
+		if (this.allowFrequentTypos) {
 			// Typo variant: site-map
-			if (this.startsWithIgnoreCase(key, "site-map")) {
+			if (this.matchesName(key, "site-map", exact)) {
 				return true;
 			}
 		}
@@ -183,8 +271,8 @@ export class ParsedRobotsKey {
 	/**
 	 * Check if key is a Sitemap typo.
 	 */
-	private isSitemapTypo(key: string): boolean {
-		if (!K_ALLOW_FREQUENT_TYPOS) return false;
-		return this.startsWithIgnoreCase(key, "site-map");
+	private isSitemapTypo(key: string, exact: boolean): boolean {
+		if (!this.allowFrequentTypos) return false;
+		return this.matchesName(key, "site-map", exact);
 	}
 }
@@ -12,11 +12,29 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { K_NO_MATCH_PRIORITY } from "./constants.js";
+import {
+	K_MAX_CRAWL_DELAY,
+	K_NO_MATCH_PRIORITY,
+	K_SNAPSHOT_VERSION,
+} from "./constants.js";
+import {
+	getMatchStrategyName,
+	resolveMatchStrategy,
+	type MatchStrategyName,
+	type RobotsMatchStrategy,
+} from "./match-strategy.js";
 import { parseRobotsTxt } from "./parser.js";
-import { RobotsParseHandler, type LineMetadata } from "./types.js";
+import {
+	RobotsParseHandler,
+	type LineMetadata,
+	type ParseOptions,
+	type RobotsBody,
+	type RobotsDirective,
+} from "./types.js";
 import { getPathParamsQuery } from "./url-utils.js";
-import { matches } from "./pattern-matcher.js";
+import { CompiledPattern } from "./pattern-matcher.js";
+import { RuleIndex } from "./rule-index.js";
+import { decodeSnapshot, encodeSnapshot } from "./snapshot-codec.js";
 
 /**
  * Result for a single URL check in bulk operations.
@@ -32,6 +50,103 @@ export interface UrlCheckResult {
 	matchedPattern: string;
 	/** Whether the match was an Allow or Disallow rule */
 	matchedRuleType: "allow" | "disallow" | "none";
+	/** Lowercase agent whose group matched, '*' for global (empty if no match) */
+	matchedAgent: string;
+	/** Index of the matching group in getGroups() (-1 if no match) */
+	matchedGroup: number;
+	/**
+	 * Whether a group with rules names one of the user-agents, so the '*'
+	 * rules don't apply. Like RobotsMatcher.everSeenSpecificAgent(), except
+	 * that a group without rules at the end of the file doesn't count.
+	 */
+	everSeenSpecificAgent: boolean;
+}
+
+/**
+ * Options for checkUrls() and checkUrl().
+ */
+export interface CheckOptions {
+	/**
+	 * Ignore the '*' rules and decide only by the groups naming the
+	 * user-agent(s), like RobotsMatcher.disallowIgnoreGlobal(): a URL is
+	 * allowed unless one of those groups blocks it.
+	 */
+	ignoreGlobal?: boolean;
+}
+
+/**
+ * A rule as evaluated when explaining a URL check.
+ */
+export interface ExplainedRule {
+	/** The rule */
+	rule: ParsedRule;
+	/** Index of the group of the rule in getGroups() */
+	group: number;
+	/** Match priority from the match strategy (-1 if no match or skipped) */
+	priority: number;
+}
+
+/**
+ * Which groups were used for a URL check: groups naming the user-agent, the
+ * '*' groups as a fallback, or none if neither has rules.
+ */
+export type GroupSelection = "specific" | "global" | "none";
+
+/**
+ * Why a URL check was decided the way it was:
+ *
+ * - 'no-rules': the selected groups have no rules
+ * - 'no-match': no rule matched, so the URL is allowed
+ * - 'zero-priority': only rules with priority 0 (e.g. empty patterns) matched
+ * - 'allow-only' / 'disallow-only': only rules of one type matched
+ * - 'higher-priority': the winner has a higher priority (longer match) than
+ *   the best rule of the other type
+ * - 'tie-allow-wins': Allow and Disallow matched with the same priority
+ * - 'first-match': the strategy lets the first matching rule decide
+ */
+export type DecisionReason =
+	| "no-rules"
+	| "no-match"
+	| "zero-priority"
+	| "allow-only"
+	| "disallow-only"
+	| "higher-priority"
+	| "tie-allow-wins"
+	| "first-match";
+
+/**
+ * Full trace of a URL check, see ParsedRobots.explainUrl().
+ */
+export interface UrlExplanation {
+	/** The URL that was checked */
+	url: string;
+	/** The path, params and query matched against the rules */
+	path: string;
+	/** The user-agents as given to explainUrl() */
+	userAgents: string[];
+	/** The same result as checkUrl() */
+	result: UrlCheckResult;
+	/** Which groups were used */
+	groupSelection: GroupSelection;
+	/** Lowercase user-agents that have their own groups */
+	specificAgents: string[];
+	/** Indexes in getGroups() of the groups whose rules were used */
+	selectedGroups: number[];
+	/** Rules that matched, in file order */
+	matchedRules: ExplainedRule[];
+	/** Rules that were tried but didn't match, in file order */
+	unmatchedRules: ExplainedRule[];
+	/**
+	 * Rules that were not tried: derived index.html rules whose Allow matched,
+	 * and rules after the deciding one for first-match strategies
+	 */
+	skippedRules: ExplainedRule[];
+	/** The rule that decided (null if none did) */
+	winner: ExplainedRule | null;
+	/** The best matching rule of the other type, outranked by the winner */
+	runnerUp: ExplainedRule | null;
+	/** Why the check was decided this way */
+	reason: DecisionReason;
 }
 
 /**
@@ -44,6 +159,176 @@ export interface ParsedRule {
 	lineNumber: number;
 	/** true = Allow, false = Disallow */
 	isAllow: boolean;
+	/** true if synthesized from an Allow rule ending in index.htm(l) */
+	isDerived: boolean;
+}
+
+/**
+ * A user-agent line of a group.
+ */
+export interface GroupUserAgent {
+	/** The value as written in the robots.txt */
+	value: string;
+	/** Line number in the robots.txt */
+	lineNumber: number;
+	/** Lowercase name used for matching, '*' for the global agent, empty if none */
+	agent: string;
+}
+
+/**
+ * A user-agent group as seen by the parser: consecutive user-agent lines
+ * followed by the rules that apply to them.
+ */
+export interface RobotsGroup {
+	/** Position of the group in the robots.txt, starting at 0 */
+	index: number;
+	/** The user-agent lines of the group */
+	userAgents: GroupUserAgent[];
+	/** Line number of the first user-agent line */
+	startLine: number;
+	/** Line number of the last line belonging to the group */
+	endLine: number;
+	/** The rules of the group, including derived index.html rules */
+	rules: ParsedRule[];
+	/** Whether the group includes the '*' agent */
+	isGlobal: boolean;
+	/** Indexes of other groups whose rules are merged with this one */
+	mergedWith: number[];
+}
+
+/**
+ * Crawl-delay resolved for a user-agent.
+ */
+export interface CrawlDelayResult {
+	/** Delay in seconds after clamping (undefined if none applies or invalid) */
+	delay: number | undefined;
+	/** Line number of the crawl-delay directive (0 if none applies) */
+	lineNumber: number;
+	/** The value as written in the robots.txt (empty string if none) */
+	rawValue: string;
+	/** Whether the value was not a valid non-negative number of seconds */
+	isInvalid: boolean;
+	/** Whether the value exceeded the cap and was reduced to it */
+	isClamped: boolean;
+}
+
+/**
+ * A sitemap listed in robots.txt.
+ */
+export interface SitemapEntry {
+	/** The sitemap URL, resolved against the base URL if it was relative */
+	url: string;
+	/** Line number of the first occurrence in the robots.txt */
+	lineNumber: number;
+	/** The value as written in the robots.txt */
+	rawValue: string;
+	/** Whether the value was a relative URL */
+	isRelative: boolean;
+	/** Whether url is a valid absolute http(s) URL */
+	isValid: boolean;
+}
+
+/**
+ * A sitemap line as found by the parser.
+ */
+export interface SitemapLine {
+	/** Line number in the robots.txt */
+	lineNumber: number;
+	/** The value as written in the robots.txt */
+	value: string;
+}
+
+/**
+ * A crawl-delay line in a snapshot.
+ */
+export interface CrawlDelaySnapshot {
+	/** Line number in the robots.txt */
+	lineNumber: number;
+	/** The value as written in the robots.txt */
+	rawValue: string;
+	/** The value in seconds, null if it was invalid */
+	seconds: number | null;
+}
+
+/**
+ * A user-agent group in a snapshot. Its index is its position in the
+ * snapshot's groups.
+ */
+export interface GroupSnapshot {
+	userAgents: GroupUserAgent[];
+	startLine: number;
+	endLine: number;
+	/** Indexes of the group's rules in the snapshot's rules */
+	rules: number[];
+	isGlobal: boolean;
+	mergedWith: number[];
+}
+
+/**
+ * Plain-data form of a ParsedRobots, from toJSON(). It can be stored as JSON
+ * or passed to worker threads with structured clone, and turned back into a
+ * ParsedRobots with ParsedRobots.fromJSON() without re-parsing.
+ *
+ * Rules are stored once, in file order, and referenced by index.
+ */
+export interface ParsedRobotsSnapshot {
+	/** Format version, K_SNAPSHOT_VERSION */
+	version: number;
+	/** Name of the match strategy, null for a custom one */
+	matchStrategy: MatchStrategyName | null;
+	/** Every rule of the robots.txt, in file order */
+	rules: ParsedRule[];
+	/** Indexes of the '*' rules */
+	globalRules: number[];
+	/** Lowercase agents with the indexes of their rules */
+	agentRules: [string, number[]][];
+	/** Lowercase agents that have rules */
+	explicitAgents: string[];
+	globalCrawlDelay: CrawlDelaySnapshot | null;
+	/** Lowercase agents with the crawl-delay of their groups */
+	agentCrawlDelays: [string, CrawlDelaySnapshot][];
+	sitemaps: SitemapLine[];
+	groups: GroupSnapshot[];
+}
+
+/**
+ * Try to parse an absolute URL, optionally relative to a base URL.
+ */
+function tryParseUrl(value: string, base?: string): URL | null {
+	try {
+		return new URL(value, base);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * A rule with its pattern compiled once at parse time.
+ */
+interface CompiledRule {
+	rule: ParsedRule;
+	compiled: CompiledPattern;
+}
+
+/**
+ * The rules used for an agent, with a prefix index if the match strategy
+ * allows skipping rules through it.
+ */
+interface RuleSet {
+	rules: CompiledRule[];
+	index: RuleIndex | null;
+}
+
+/** The rules used when no group applies. */
+const K_EMPTY_RULE_SET: RuleSet = { rules: [], index: null };
+
+/**
+ * A crawl-delay line of a group. The value is undefined if it was invalid.
+ */
+interface CrawlDelayEntry {
+	lineNumber: number;
+	rawValue: string;
+	seconds: number | undefined;
 }
 
 /**
@@ -53,6 +338,35 @@ interface AgentGroup {
 	agents: Set<string>; // lowercase agent names
 	rules: ParsedRule[];
 	isGlobal: boolean; // true if this group includes '*'
+	crawlDelay?: CrawlDelayEntry;
+	userAgents: GroupUserAgent[];
+	endLine: number;
+}
+
+/**
+ * Parse a crawl-delay value: a non-negative decimal number of seconds,
+ * optionally fractional (e.g. '10', '0.5', '.5'). Returns undefined if invalid.
+ */
+function parseCrawlDelay(value: string): number | undefined {
+	if (!/^(\d+\.?\d*|\.\d+)$/.test(value)) {
+		return undefined;
+	}
+	return Number.parseFloat(value);
+}
+
+/**
+ * Pick the crawl-delay to keep when a group or agent has several: the first
+ * valid one, or the first one if none is valid.
+ */
+function preferCrawlDelay(
+	existing: CrawlDelayEntry | undefined,
+	candidate: CrawlDelayEntry,
+): CrawlDelayEntry {
+	if (!existing) return candidate;
+	if (existing.seconds === undefined && candidate.seconds !== undefined) {
+		return candidate;
+	}
+	return existing;
 }
 
 /**
@@ -77,6 +391,110 @@ function extractUserAgent(userAgent: string): string {
 	return userAgent.slice(0, end);
 }
 
+/**
+ * Build the public group model from the collected groups. Groups are merged
+ * if they share an agent (or are both '*' groups) and both have rules.
+ */
+function buildGroups(groups: AgentGroup[]): RobotsGroup[] {
+	const groupsByAgent = new Map<string, number[]>();
+	groups.forEach((group, index) => {
+		if (group.rules.length === 0) return;
+		const agents = group.isGlobal ? [...group.agents, "*"] : group.agents;
+		for (const agent of agents) {
+			const indexes = groupsByAgent.get(agent) || [];
+			indexes.push(index);
+			groupsByAgent.set(agent, indexes);
+		}
+	});
+
+	return groups.map((group, index) => {
+		const mergedWith = new Set<number>();
+		if (group.rules.length > 0) {
+			const agents = group.isGlobal ? [...group.agents, "*"] : group.agents;
+			for (const agent of agents) {
+				for (const other of groupsByAgent.get(agent)!) {
+					if (other !== index) mergedWith.add(other);
+				}
+			}
+		}
+
+		return {
+			index,
+			userAgents: group.userAgents,
+			startLine: group.userAgents[0].lineNumber,
+			endLine: group.endLine,
+			rules: group.rules,
+			isGlobal: group.isGlobal,
+			mergedWith: Array.from(mergedWith).sort((a, b) => a - b),
+		};
+	});
+}
+
+/**
+ * The best Allow and Disallow match for a path.
+ */
+interface RuleEvaluation {
+	bestAllowPriority: number;
+	bestAllowRule: ParsedRule | null;
+	bestDisallowPriority: number;
+	bestDisallowRule: ParsedRule | null;
+	firstMatchWins: boolean;
+}
+
+function createRuleEvaluation(): RuleEvaluation {
+	return {
+		bestAllowPriority: K_NO_MATCH_PRIORITY,
+		bestAllowRule: null,
+		bestDisallowPriority: K_NO_MATCH_PRIORITY,
+		bestDisallowRule: null,
+		firstMatchWins: false,
+	};
+}
+
+/**
+ * The outcome of a URL check.
+ */
+interface Decision {
+	allowed: boolean;
+	matchedRule: ParsedRule | null;
+	reason: DecisionReason;
+}
+
+/**
+ * Decide a URL check from the best matches, like RobotsMatcher.disallow():
+ * only matches with a positive priority decide, and when priorities are equal,
+ * Allow wins (RFC 9309 compliance).
+ */
+function decide(evaluation: RuleEvaluation): Decision {
+	const allowPriority = evaluation.bestAllowPriority;
+	const disallowPriority = evaluation.bestDisallowPriority;
+
+	if (allowPriority <= 0 && disallowPriority <= 0) {
+		const reason =
+			allowPriority === 0 || disallowPriority === 0
+				? "zero-priority"
+				: "no-match";
+		return { allowed: true, matchedRule: null, reason };
+	}
+
+	let reason: DecisionReason;
+	if (evaluation.firstMatchWins) {
+		reason = "first-match";
+	} else if (allowPriority < 0 || disallowPriority < 0) {
+		reason = allowPriority < 0 ? "disallow-only" : "allow-only";
+	} else if (allowPriority === disallowPriority) {
+		reason = "tie-allow-wins";
+	} else {
+		reason = "higher-priority";
+	}
+
+	if (disallowPriority > allowPriority) {
+		return { allowed: false, matchedRule: evaluation.bestDisallowRule, reason };
+	}
+	// Allow is longer, or ties go to allow
+	return { allowed: true, matchedRule: evaluation.bestAllowRule, reason };
+}
+
 /**
  * Handler that collects rules during parsing instead of matching immediately.
  * This allows the rules to be reused for multiple URL checks.
@@ -84,6 +502,8 @@ function extractUserAgent(userAgent: string): string {
 class RulesCollectorHandler extends RobotsParseHandler {
 	public globalRules: ParsedRule[] = [];
 	public agentGroups: AgentGroup[] = [];
+	public allGroups: AgentGroup[] = [];
+	public sitemaps: SitemapLine[] = [];
 
 	private currentGroup: AgentGroup | null = null;
 	private seenSeparator = false;
@@ -91,6 +511,8 @@ class RulesCollectorHandler extends RobotsParseHandler {
 	public handleRobotsStart(): void {
 		this.globalRules = [];
 		this.agentGroups = [];
+		this.allGroups = [];
+		this.sitemaps = [];
 		this.currentGroup = null;
 		this.seenSeparator = false;
 	}
@@ -100,7 +522,7 @@ class RulesCollectorHandler extends RobotsParseHandler {
 		this.finalizeCurrentGroup();
 	}
 
-	public handleUserAgent(_lineNum: number, userAgent: string): void {
+	public handleUserAgent(lineNum: number, userAgent: string): void {
 		if (this.seenSeparator) {
 			// Start a new group after seeing Allow/Disallow
 			this.finalizeCurrentGroup();
@@ -109,8 +531,15 @@ class RulesCollectorHandler extends RobotsParseHandler {
 		}
 
 		if (!this.currentGroup) {
-			this.currentGroup = { agents: new Set(), rules: [], isGlobal: false };
+			this.currentGroup = {
+				agents: new Set(),
+				rules: [],
+				isGlobal: false,
+				userAgents: [],
+				endLine: lineNum,
+			};
 		}
+		this.currentGroup.endLine = lineNum;
 
 		// Handle * wildcard (with Google's special handling for "* followed by space")
 		if (
@@ -119,20 +548,31 @@ class RulesCollectorHandler extends RobotsParseHandler {
 			(userAgent.length === 1 || /\s/.test(userAgent[1]))
 		) {
 			this.currentGroup.isGlobal = true;
+			this.currentGroup.userAgents.push({
+				value: userAgent,
+				lineNumber: lineNum,
+				agent: "*",
+			});
 		} else {
-			const extracted = extractUserAgent(userAgent);
+			const extracted = extractUserAgent(userAgent).toLowerCase();
 			if (extracted.length > 0) {
-				this.currentGroup.agents.add(extracted.toLowerCase());
+				this.currentGroup.agents.add(extracted);
 			}
+			this.currentGroup.userAgents.push({
+				value: userAgent,
+				lineNumber: lineNum,
+				agent: extracted,
+			});
 		}
 	}
 
 	public handleAllow(lineNum: number, value: string): void {
-		// Empty Allow is a no-op - it doesn't add any permissions beyond the default.
-		// Skip to avoid creating unnecessary rules and misleading match reporting.
-		if (value.length === 0) return;
+		this.extendCurrentGroup(lineNum);
 
-		this.addRule(lineNum, value, true);
+		// Empty rules are kept: like in RobotsMatcher they end the user-agent list
+		// and are passed to the match strategy. With the default strategy they
+		// match with priority 0, which never decides a check.
+		this.addRule(lineNum, value, true, false);
 
 		// Google-specific: index.html normalization
 		// 'index.htm' and 'index.html' are normalized to '/'
@@ -141,37 +581,52 @@ class RulesCollectorHandler extends RobotsParseHandler {
 			const afterSlash = value.slice(slashPos);
 			if (afterSlash.startsWith("/index.htm")) {
 				const newPattern = value.slice(0, slashPos + 1) + "$";
-				this.addRule(lineNum, newPattern, true);
+				this.addRule(lineNum, newPattern, true, true);
 			}
 		}
 	}
 
 	public handleDisallow(lineNum: number, value: string): void {
-		// RFC 9309: Empty Disallow means "allow all" - don't create a blocking rule.
-		// An empty pattern would match everything (empty string is prefix of all strings)
-		// but with priority 0, which should not block access.
-		if (value.length === 0) return;
+		this.extendCurrentGroup(lineNum);
 
-		this.addRule(lineNum, value, false);
+		// RFC 9309: Empty Disallow means "allow all". An empty pattern matches
+		// everything, but with priority 0, which does not block access.
+		this.addRule(lineNum, value, false, false);
 	}
 
-	public handleSitemap(_lineNum: number, _value: string): void {
-		// Sitemaps don't affect crawl rules
+	public handleSitemap(lineNum: number, value: string): void {
+		// Sitemaps don't affect crawl rules and don't belong to any group
+		this.sitemaps.push({ lineNumber: lineNum, value });
 	}
 
 	public handleUnknownAction(
-		_lineNum: number,
-		_action: string,
-		_value: string,
+		lineNum: number,
+		action: string,
+		value: string,
 	): void {
-		// Unknown actions are ignored
+		// Crawl-delay is collected for getCrawlDelay(), other actions are ignored
+		if (action.toLowerCase() === "crawl-delay") {
+			this.addCrawlDelay(lineNum, value);
+		}
+	}
+
+	public handleDirective(lineNum: number, directive: RobotsDirective): void {
+		// Crawl-delay may be registered as a custom directive, under any alias
+		if (directive.name.toLowerCase() === "crawl-delay") {
+			this.addCrawlDelay(lineNum, directive.rawValue);
+		}
 	}
 
 	public reportLineMetadata(_lineNum: number, _metadata: LineMetadata): void {
 		// Not needed for rule collection
 	}
 
-	private addRule(lineNum: number, pattern: string, isAllow: boolean): void {
+	private addRule(
+		lineNum: number,
+		pattern: string,
+		isAllow: boolean,
+		isDerived: boolean,
+	): void {
 		if (!this.currentGroup) return;
 
 		this.seenSeparator = true;
@@ -180,6 +635,7 @@ class RulesCollectorHandler extends RobotsParseHandler {
 			pattern,
 			lineNumber: lineNum,
 			isAllow,
+			isDerived,
 		};
 
 		this.currentGroup.rules.push(rule);
@@ -190,8 +646,32 @@ class RulesCollectorHandler extends RobotsParseHandler {
 		}
 	}
 
+	private addCrawlDelay(lineNum: number, value: string): void {
+		// Like rules, crawl-delay is only meaningful inside a group. It is not a
+		// rule, so it does not end the list of user-agents of the group.
+		if (!this.currentGroup) return;
+
+		this.extendCurrentGroup(lineNum);
+		this.currentGroup.crawlDelay = preferCrawlDelay(
+			this.currentGroup.crawlDelay,
+			{ lineNumber: lineNum, rawValue: value, seconds: parseCrawlDelay(value) },
+		);
+	}
+
+	private extendCurrentGroup(lineNum: number): void {
+		if (this.currentGroup) {
+			this.currentGroup.endLine = lineNum;
+		}
+	}
+
 	private finalizeCurrentGroup(): void {
-		if (this.currentGroup && this.currentGroup.rules.length > 0) {
+		if (this.currentGroup) {
+			this.allGroups.push(this.currentGroup);
+		}
+		if (
+			this.currentGroup &&
+			(this.currentGroup.rules.length > 0 || this.currentGroup.crawlDelay)
+		) {
 			this.agentGroups.push(this.currentGroup);
 		}
 	}
@@ -216,72 +696,269 @@ class RulesCollectorHandler extends RobotsParseHandler {
  * ```
  */
 export class ParsedRobots {
-	private readonly globalRules: ParsedRule[];
-	private readonly agentRulesMap: Map<string, ParsedRule[]>;
+	private readonly globalRules: RuleSet;
+	private readonly agentRulesMap: Map<string, RuleSet>;
+	private readonly combinedRuleSets = new Map<string, RuleSet>();
+	// Reused by checkUrls() to avoid an allocation per URL
+	private readonly evaluation = createRuleEvaluation();
 	private readonly explicitAgents: Set<string>;
+	private readonly globalCrawlDelay: CrawlDelayEntry | undefined;
+	private readonly agentCrawlDelays: Map<string, CrawlDelayEntry>;
+	private readonly sitemaps: SitemapLine[];
+	private readonly groups: RobotsGroup[];
+	private readonly ruleGroups: Map<ParsedRule, number>;
+	private readonly matchStrategy: RobotsMatchStrategy;
+	private readonly matchAllow: (path: string, rule: CompiledRule) => number;
+	private readonly matchDisallow: (path: string, rule: CompiledRule) => number;
 
 	private constructor(
-		globalRules: ParsedRule[],
-		agentRulesMap: Map<string, ParsedRule[]>,
+		globalRules: CompiledRule[],
+		agentRulesMap: Map<string, CompiledRule[]>,
 		explicitAgents: Set<string>,
+		globalCrawlDelay: CrawlDelayEntry | undefined,
+		agentCrawlDelays: Map<string, CrawlDelayEntry>,
+		sitemaps: SitemapLine[],
+		groups: RobotsGroup[],
+		matchStrategy: RobotsMatchStrategy,
 	) {
-		this.globalRules = globalRules;
-		this.agentRulesMap = agentRulesMap;
 		this.explicitAgents = explicitAgents;
+		this.globalCrawlDelay = globalCrawlDelay;
+		this.agentCrawlDelays = agentCrawlDelays;
+		this.sitemaps = sitemaps;
+		this.groups = groups;
+		this.matchStrategy = matchStrategy;
+
+		// Strategies accepting compiled patterns don't re-scan the pattern text
+		this.matchAllow = matchStrategy.matchAllowCompiled
+			? (path, rule) => matchStrategy.matchAllowCompiled!(path, rule.compiled)
+			: (path, rule) => matchStrategy.matchAllow(path, rule.rule.pattern);
+		this.matchDisallow = matchStrategy.matchDisallowCompiled
+			? (path, rule) =>
+					matchStrategy.matchDisallowCompiled!(path, rule.compiled)
+			: (path, rule) => matchStrategy.matchDisallow(path, rule.rule.pattern);
+
+		this.globalRules = this.createRuleSet(globalRules);
+		this.agentRulesMap = new Map();
+		for (const [agent, rules] of agentRulesMap) {
+			this.agentRulesMap.set(agent, this.createRuleSet(rules));
+		}
+
+		this.ruleGroups = new Map();
+		for (const group of groups) {
+			for (const rule of group.rules) {
+				this.ruleGroups.set(rule, group.index);
+			}
+		}
 	}
 
 	/**
 	 * Parse a robots.txt body and return a ParsedRobots instance.
 	 * This is the expensive operation - do it once.
 	 *
-	 * @param robotsBody - The robots.txt content to parse
+	 * @param robotsBody - The robots.txt content to parse (text or raw bytes)
+	 * @param options - Parse options, e.g. the maximum body size or the match
+	 *   strategy used by checkUrls()
 	 * @returns A ParsedRobots instance ready for URL checking
 	 */
-	public static parse(robotsBody: string): ParsedRobots {
+	public static parse(
+		robotsBody: RobotsBody,
+		options: ParseOptions = {},
+	): ParsedRobots {
 		const handler = new RulesCollectorHandler();
-		parseRobotsTxt(robotsBody, handler);
+		parseRobotsTxt(robotsBody, handler, options);
+
+		// Compile each rule once; rules shared by several agents share the result
+		const compiledRules = new Map<ParsedRule, CompiledRule>();
+		const compile = (rules: ParsedRule[]): CompiledRule[] =>
+			rules.map((rule) => {
+				let compiled = compiledRules.get(rule);
+				if (!compiled) {
+					compiled = { rule, compiled: new CompiledPattern(rule.pattern) };
+					compiledRules.set(rule, compiled);
+				}
+				return compiled;
+			});
 
 		// Build agent -> rules map
-		const agentRulesMap = new Map<string, ParsedRule[]>();
+		const agentRulesMap = new Map<string, CompiledRule[]>();
 		const explicitAgents = new Set<string>();
+		let globalCrawlDelay: CrawlDelayEntry | undefined;
+		const agentCrawlDelays = new Map<string, CrawlDelayEntry>();
 
 		for (const group of handler.agentGroups) {
+			const crawlDelay = group.crawlDelay;
+			if (crawlDelay && group.isGlobal) {
+				globalCrawlDelay = preferCrawlDelay(globalCrawlDelay, crawlDelay);
+			}
+
 			for (const agent of group.agents) {
+				if (crawlDelay) {
+					agentCrawlDelays.set(
+						agent,
+						preferCrawlDelay(agentCrawlDelays.get(agent), crawlDelay),
+					);
+				}
+
+				// Groups with only a crawl-delay don't take part in URL matching
+				if (group.rules.length === 0) continue;
+
 				explicitAgents.add(agent);
 
 				// Merge rules if agent appears in multiple groups
 				const existing = agentRulesMap.get(agent) || [];
-				agentRulesMap.set(agent, [...existing, ...group.rules]);
+				agentRulesMap.set(agent, [...existing, ...compile(group.rules)]);
 			}
 		}
 
-		return new ParsedRobots(handler.globalRules, agentRulesMap, explicitAgents);
+		return new ParsedRobots(
+			compile(handler.globalRules),
+			agentRulesMap,
+			explicitAgents,
+			globalCrawlDelay,
+			agentCrawlDelays,
+			handler.sitemaps,
+			buildGroups(handler.allGroups),
+			resolveMatchStrategy(options.matchStrategy),
+		);
 	}
 
 	/**
-	 * Check multiple URLs for a single user-agent.
+	 * Restore a ParsedRobots from a snapshot made by toJSON(), without
+	 * re-parsing the robots.txt.
+	 *
+	 * @param snapshot - The snapshot, e.g. from JSON.parse() or structured clone
+	 * @param matchStrategy - Strategy to use instead of the one in the snapshot;
+	 *   required if the snapshot was made with a custom strategy
+	 * @returns A ParsedRobots instance ready for URL checking
+	 * @throws Error if the snapshot has another version or is malformed
+	 */
+	public static fromJSON(
+		snapshot: ParsedRobotsSnapshot,
+		matchStrategy?: RobotsMatchStrategy | MatchStrategyName,
+	): ParsedRobots {
+		if (snapshot?.version !== K_SNAPSHOT_VERSION) {
+			throw new Error(
+				`Unsupported ParsedRobots snapshot version: ${String(snapshot?.version)}`,
+			);
+		}
+		if (matchStrategy === undefined && snapshot.matchStrategy === null) {
+			throw new Error(
+				"ParsedRobots snapshot uses a custom match strategy, pass it to fromJSON()",
+			);
+		}
+
+		const rules = snapshot.rules.map(
+			(rule): CompiledRule => ({
+				rule: {
+					pattern: rule.pattern,
+					lineNumber: rule.lineNumber,
+					isAllow: rule.isAllow,
+					isDerived: rule.isDerived,
+				},
+				compiled: new CompiledPattern(rule.pattern),
+			}),
+		);
+		const ruleAt = (index: number): CompiledRule => {
+			const rule = rules[index];
+			if (!rule) {
+				throw new Error(`Invalid ParsedRobots snapshot: no rule ${index}`);
+			}
+			return rule;
+		};
+
+		const restoreCrawlDelay = (entry: CrawlDelaySnapshot): CrawlDelayEntry => ({
+			lineNumber: entry.lineNumber,
+			rawValue: entry.rawValue,
+			seconds: entry.seconds ?? undefined,
+		});
+
+		const groups = snapshot.groups.map(
+			(group, index): RobotsGroup => ({
+				index,
+				userAgents: group.userAgents.map((ua) => ({ ...ua })),
+				startLine: group.startLine,
+				endLine: group.endLine,
+				rules: group.rules.map((rule) => ruleAt(rule).rule),
+				isGlobal: group.isGlobal,
+				mergedWith: [...group.mergedWith],
+			}),
+		);
+
+		return new ParsedRobots(
+			snapshot.globalRules.map(ruleAt),
+			new Map(
+				snapshot.agentRules.map(([agent, indexes]) => [
+					agent,
+					indexes.map(ruleAt),
+				]),
+			),
+			new Set(snapshot.explicitAgents),
+			snapshot.globalCrawlDelay
+				? restoreCrawlDelay(snapshot.globalCrawlDelay)
+				: undefined,
+			new Map(
+				snapshot.agentCrawlDelays.map(([agent, entry]) => [
+					agent,
+					restoreCrawlDelay(entry),
+				]),
+			),
+			snapshot.sitemaps.map((sitemap) => ({ ...sitemap })),
+			groups,
+			resolveMatchStrategy(matchStrategy ?? snapshot.matchStrategy!),
+		);
+	}
+
+	/**
+	 * Restore a ParsedRobots from the binary form made by toBinary().
+	 *
+	 * @param bytes - The encoded snapshot
+	 * @param matchStrategy - Strategy to use instead of the one in the snapshot;
+	 *   required if the snapshot was made with a custom strategy
+	 * @returns A ParsedRobots instance ready for URL checking
+	 * @throws Error if the data is not a snapshot of a supported version
+	 */
+	public static fromBinary(
+		bytes: Uint8Array,
+		matchStrategy?: RobotsMatchStrategy | MatchStrategyName,
+	): ParsedRobots {
+		return ParsedRobots.fromJSON(decodeSnapshot(bytes), matchStrategy);
+	}
+
+	/**
+	 * Check multiple URLs for one user-agent, or for several that are treated
+	 * as the same crawler (e.g. ['Googlebot-Image', 'Googlebot']).
 	 * This is the fast operation - O(urls * rules) with no parsing overhead.
 	 *
+	 * With several user-agents, the rules of all groups naming any of them are
+	 * combined like in RobotsMatcher.allowedByRobots(); the '*' rules are only
+	 * used if none of them has rules, and never with options.ignoreGlobal.
+	 *
 	 * Invalid or malformed URLs are handled gracefully - if the path cannot be
 	 * extracted, it defaults to "/" which typically allows access. No exceptions
 	 * are thrown for invalid input.
 	 *
-	 * @param userAgent - The user-agent to check (e.g., 'Googlebot', 'Googlebot/2.1')
+	 * @param userAgents - The user-agent(s) to check (e.g., 'Googlebot/2.1')
 	 * @param urls - Array of URLs to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
 	 * @returns Array of results in the same order as input URLs
 	 */
-	public checkUrls(userAgent: string, urls: string[]): UrlCheckResult[] {
-		const lowerAgent = extractUserAgent(userAgent).toLowerCase();
-
+	public checkUrls(
+		userAgents: string | string[],
+		urls: string[],
+		options: CheckOptions = {},
+	): UrlCheckResult[] {
 		// Determine which rules to use:
-		// - If specific agent has rules, use those (ignore global)
-		// - Otherwise, fall back to global rules
-		const hasSpecificRules = this.agentRulesMap.has(lowerAgent);
-		const rules = hasSpecificRules
-			? this.agentRulesMap.get(lowerAgent)!
-			: this.globalRules;
+		// - If specific agents have rules, use those (ignore global)
+		// - Otherwise, fall back to global rules unless they are ignored
+		const specificAgents = this.getSpecificAgents(userAgents);
+		let ruleSet = this.globalRules;
+		if (specificAgents.length > 0) {
+			ruleSet = this.combineAgentRules(specificAgents);
+		} else if (options.ignoreGlobal) {
+			ruleSet = K_EMPTY_RULE_SET;
+		}
 
-		return urls.map((url) => this.checkSingleUrl(url, rules));
+		return urls.map((url) => this.checkSingleUrl(url, ruleSet, specificAgents));
 	}
 
 	/**
@@ -290,12 +967,216 @@ export class ParsedRobots {
 	 * Invalid or malformed URLs are handled gracefully - if the path cannot be
 	 * extracted, it defaults to "/" which typically allows access.
 	 *
-	 * @param userAgent - The user-agent to check
+	 * @param userAgents - The user-agent(s) to check
 	 * @param url - The URL to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
 	 * @returns Result with detailed match information
 	 */
-	public checkUrl(userAgent: string, url: string): UrlCheckResult {
-		return this.checkUrls(userAgent, [url])[0];
+	public checkUrl(
+		userAgents: string | string[],
+		url: string,
+		options: CheckOptions = {},
+	): UrlCheckResult {
+		return this.checkUrls(userAgents, [url], options)[0];
+	}
+
+	/**
+	 * Explain how a URL check is decided: which groups were selected, every
+	 * rule of them with its match priority, and why the winner won.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param url - The URL to check (should be %-encoded per RFC3986)
+	 * @returns The full trace, including the same result as checkUrl()
+	 */
+	public explainUrl(
+		userAgents: string | string[],
+		url: string,
+	): UrlExplanation {
+		const specificAgents = this.getSpecificAgents(userAgents);
+		const ruleSet =
+			specificAgents.length > 0
+				? this.combineAgentRules(specificAgents)
+				: this.globalRules;
+		const path = getPathParamsQuery(url);
+
+		// Scan every rule, not just the index candidates, to list them all
+		const explained = new Map<ParsedRule, ExplainedRule>();
+		const matchedRules: ExplainedRule[] = [];
+		const unmatchedRules: ExplainedRule[] = [];
+		const skippedRules: ExplainedRule[] = [];
+		const evaluation = this.evaluateRules(
+			path,
+			{ rules: ruleSet.rules, index: null },
+			createRuleEvaluation(),
+			(rule, priority) => {
+				const entry: ExplainedRule = {
+					rule,
+					group: this.ruleGroups.get(rule)!,
+					priority: priority ?? K_NO_MATCH_PRIORITY,
+				};
+				explained.set(rule, entry);
+				if (priority === null) {
+					skippedRules.push(entry);
+				} else if (priority >= 0) {
+					matchedRules.push(entry);
+				} else {
+					unmatchedRules.push(entry);
+				}
+			},
+		);
+
+		const decision = decide(evaluation);
+		const winner = decision.matchedRule;
+		let runnerUp: ParsedRule | null = null;
+		if (winner) {
+			runnerUp = winner.isAllow
+				? evaluation.bestDisallowRule
+				: evaluation.bestAllowRule;
+		}
+
+		const selectedGroups = new Set<number>();
+		for (const { rule } of ruleSet.rules) {
+			selectedGroups.add(this.ruleGroups.get(rule)!);
+		}
+
+		let groupSelection: GroupSelection = "none";
+		if (specificAgents.length > 0) {
+			groupSelection = "specific";
+		} else if (ruleSet.rules.length > 0) {
+			groupSelection = "global";
+		}
+
+		return {
+			url,
+			path,
+			userAgents: Array.isArray(userAgents) ? [...userAgents] : [userAgents],
+			result: this.buildResult(url, decision, specificAgents),
+			groupSelection,
+			specificAgents,
+			selectedGroups: Array.from(selectedGroups).sort((a, b) => a - b),
+			matchedRules,
+			unmatchedRules,
+			skippedRules,
+			winner: winner ? explained.get(winner)! : null,
+			runnerUp: runnerUp ? explained.get(runnerUp)! : null,
+			reason: ruleSet.rules.length === 0 ? "no-rules" : decision.reason,
+		};
+	}
+
+	/**
+	 * Get the crawl-delay for a user-agent. Google ignores crawl-delay, but
+	 * other crawlers (e.g. Bing, Yandex) honour it.
+	 *
+	 * The groups naming the agent are used if there are any, otherwise the '*'
+	 * group. Unlike checkUrls(), a group naming the agent with a crawl-delay
+	 * but no rules counts: its crawl-delay applies while URLs are still
+	 * checked against the '*' rules. If a group has several
+	 * crawl-delay lines, the first valid one is used. Values are seconds and
+	 * may be fractional; values above maxDelay are clamped to it.
+	 *
+	 * @param userAgent - The user-agent to resolve (e.g., 'Bingbot/2.0')
+	 * @param maxDelay - Cap in seconds (defaults to K_MAX_CRAWL_DELAY)
+	 * @returns The resolved delay with the directive it came from
+	 */
+	public getCrawlDelay(
+		userAgent: string,
+		maxDelay: number = K_MAX_CRAWL_DELAY,
+	): CrawlDelayResult {
+		const lowerAgent = extractUserAgent(userAgent).toLowerCase();
+
+		const hasSpecificGroup =
+			this.agentRulesMap.has(lowerAgent) ||
+			this.agentCrawlDelays.has(lowerAgent);
+		const entry = hasSpecificGroup
+			? this.agentCrawlDelays.get(lowerAgent)
+			: this.globalCrawlDelay;
+
+		if (!entry) {
+			return {
+				delay: undefined,
+				lineNumber: 0,
+				rawValue: "",
+				isInvalid: false,
+				isClamped: false,
+			};
+		}
+
+		const seconds = entry.seconds;
+		const isClamped = seconds !== undefined && seconds > maxDelay;
+		return {
+			delay: isClamped ? maxDelay : seconds,
+			lineNumber: entry.lineNumber,
+			rawValue: entry.rawValue,
+			isInvalid: seconds === undefined,
+			isClamped,
+		};
+	}
+
+	/**
+	 * Get the sitemaps listed in the robots.txt, in file order.
+	 *
+	 * Relative URLs are resolved against baseUrl (usually the robots.txt URL).
+	 * Entries are de-duplicated by resolved URL, keeping the first occurrence.
+	 * Entries that are not absolute http(s) URLs, including relative URLs when
+	 * no baseUrl is given, are returned with isValid set to false.
+	 *
+	 * @param baseUrl - URL to resolve relative sitemap URLs against
+	 * @returns Array of sitemap entries
+	 */
+	public getSitemaps(baseUrl?: string): SitemapEntry[] {
+		const results: SitemapEntry[] = [];
+		const seen = new Set<string>();
+
+		for (const sitemap of this.sitemaps) {
+			const absolute = tryParseUrl(sitemap.value);
+			const resolved =
+				absolute ??
+				(baseUrl !== undefined ? tryParseUrl(sitemap.value, baseUrl) : null);
+			const url = resolved ? resolved.href : sitemap.value;
+
+			if (seen.has(url)) continue;
+			seen.add(url);
+
+			results.push({
+				url,
+				lineNumber: sitemap.lineNumber,
+				rawValue: sitemap.value,
+				isRelative: absolute === null && sitemap.value.length > 0,
+				isValid:
+					resolved !== null &&
+					(resolved.protocol === "http:" || resolved.protocol === "https:"),
+			});
+		}
+
+		return results;
+	}
+
+	/**
+	 * Get the user-agent groups of the robots.txt, in file order.
+	 *
+	 * With a userAgent, only the groups whose rules apply to it are returned:
+	 * the groups naming the agent if any of them has rules, otherwise the '*'
+	 * groups. Groups for the same agent are merged, like in checkUrls().
+	 *
+	 * @param userAgent - Optional user-agent to select groups for
+	 * @returns Array of groups
+	 */
+	public getGroups(userAgent?: string): RobotsGroup[] {
+		if (userAgent === undefined) {
+			return [...this.groups];
+		}
+
+		const lowerAgent = extractUserAgent(userAgent).toLowerCase();
+		if (this.agentRulesMap.has(lowerAgent)) {
+			return this.groups.filter(
+				(group) =>
+					group.rules.length > 0 &&
+					group.userAgents.some((ua) => ua.agent === lowerAgent),
+			);
+		}
+		return this.groups.filter(
+			(group) => group.isGlobal && group.rules.length > 0,
+		);
 	}
 
 	/**
@@ -318,70 +1199,251 @@ export class ParsedRobots {
 		return Array.from(this.explicitAgents);
 	}
 
+	/**
+	 * Get a versioned plain-data snapshot for ParsedRobots.fromJSON(). Also
+	 * used by JSON.stringify().
+	 *
+	 * A custom match strategy is not part of the snapshot and has to be
+	 * passed to fromJSON() again.
+	 *
+	 * @returns The snapshot
+	 */
+	public toJSON(): ParsedRobotsSnapshot {
+		// Every rule belongs to a group, so the groups list all of them
+		const rules: ParsedRule[] = [];
+		const ruleIndexes = new Map<ParsedRule, number>();
+		for (const group of this.groups) {
+			for (const rule of group.rules) {
+				ruleIndexes.set(rule, rules.length);
+				rules.push({ ...rule });
+			}
+		}
+		const indexesOf = (ruleSet: RuleSet): number[] =>
+			ruleSet.rules.map(({ rule }) => ruleIndexes.get(rule)!);
+
+		const snapshotCrawlDelay = (
+			entry: CrawlDelayEntry,
+		): CrawlDelaySnapshot => ({
+			lineNumber: entry.lineNumber,
+			rawValue: entry.rawValue,
+			seconds: entry.seconds ?? null,
+		});
+
+		return {
+			version: K_SNAPSHOT_VERSION,
+			matchStrategy: getMatchStrategyName(this.matchStrategy),
+			rules,
+			globalRules: indexesOf(this.globalRules),
+			agentRules: Array.from(this.agentRulesMap, ([agent, ruleSet]) => [
+				agent,
+				indexesOf(ruleSet),
+			]),
+			explicitAgents: Array.from(this.explicitAgents),
+			globalCrawlDelay: this.globalCrawlDelay
+				? snapshotCrawlDelay(this.globalCrawlDelay)
+				: null,
+			agentCrawlDelays: Array.from(this.agentCrawlDelays, ([agent, entry]) => [
+				agent,
+				snapshotCrawlDelay(entry),
+			]),
+			sitemaps: this.sitemaps.map((sitemap) => ({ ...sitemap })),
+			groups: this.groups.map((group) => ({
+				userAgents: group.userAgents.map((ua) => ({ ...ua })),
+				startLine: group.startLine,
+				endLine: group.endLine,
+				rules: group.rules.map((rule) => ruleIndexes.get(rule)!),
+				isGlobal: group.isGlobal,
+				mergedWith: [...group.mergedWith],
+			})),
+		};
+	}
+
+	/**
+	 * Get the snapshot of toJSON() in a compact binary form for
+	 * ParsedRobots.fromBinary().
+	 *
+	 * @returns The encoded snapshot
+	 */
+	public toBinary(): Uint8Array {
+		return encodeSnapshot(this.toJSON());
+	}
+
+	/**
+	 * Get the lowercase user-agents that have their own rules.
+	 */
+	private getSpecificAgents(userAgents: string | string[]): string[] {
+		const lowerAgents = (
+			Array.isArray(userAgents) ? userAgents : [userAgents]
+		).map((agent) => extractUserAgent(agent).toLowerCase());
+		return lowerAgents.filter((agent) => this.agentRulesMap.has(agent));
+	}
+
+	/**
+	 * Get the rules of all groups naming any of the agents, in file order.
+	 */
+	private combineAgentRules(agents: string[]): RuleSet {
+		if (agents.length === 1) {
+			return this.agentRulesMap.get(agents[0])!;
+		}
+
+		const key = agents.join("\n");
+		const cached = this.combinedRuleSets.get(key);
+		if (cached) return cached;
+
+		// A group naming several of the agents contributes its rules only once
+		const combined = new Set<CompiledRule>();
+		for (const agent of agents) {
+			for (const rule of this.agentRulesMap.get(agent)!.rules) {
+				combined.add(rule);
+			}
+		}
+		const ruleSet = this.createRuleSet(
+			Array.from(combined).sort(
+				(a, b) => a.rule.lineNumber - b.rule.lineNumber,
+			),
+		);
+		this.combinedRuleSets.set(key, ruleSet);
+		return ruleSet;
+	}
+
+	/**
+	 * Index the rules by literal prefix if the match strategy guarantees that
+	 * rules only match paths starting with it.
+	 */
+	private createRuleSet(rules: CompiledRule[]): RuleSet {
+		const index = this.matchStrategy.requiresLiteralPrefix
+			? new RuleIndex(rules.map((rule) => rule.compiled))
+			: null;
+		return { rules, index };
+	}
+
+	/**
+	 * Get the agent whose group holds the rule: the first of the specific
+	 * agents named by the group, or '*' when global rules are used.
+	 */
+	private agentForRule(rule: ParsedRule, specificAgents: string[]): string {
+		if (specificAgents.length === 0) return "*";
+		const group = this.groups[this.ruleGroups.get(rule)!];
+		return (
+			specificAgents.find((agent) =>
+				group.userAgents.some((ua) => ua.agent === agent),
+			) ?? specificAgents[0]
+		);
+	}
+
 	/**
 	 * Check a single URL against a set of rules.
 	 */
-	private checkSingleUrl(url: string, rules: ParsedRule[]): UrlCheckResult {
+	private checkSingleUrl(
+		url: string,
+		ruleSet: RuleSet,
+		specificAgents: string[],
+	): UrlCheckResult {
 		const path = getPathParamsQuery(url);
+		const evaluation = this.evaluateRules(path, ruleSet, this.evaluation);
+		return this.buildResult(url, decide(evaluation), specificAgents);
+	}
 
-		let bestAllowPriority = K_NO_MATCH_PRIORITY;
-		let bestAllowLine = 0;
-		let bestAllowPattern = "";
-
-		let bestDisallowPriority = K_NO_MATCH_PRIORITY;
-		let bestDisallowLine = 0;
-		let bestDisallowPattern = "";
-
-		for (const rule of rules) {
-			if (matches(path, rule.pattern)) {
-				const priority = rule.pattern.length;
-				if (rule.isAllow) {
-					if (priority > bestAllowPriority) {
-						bestAllowPriority = priority;
-						bestAllowLine = rule.lineNumber;
-						bestAllowPattern = rule.pattern;
-					}
-				} else {
-					if (priority > bestDisallowPriority) {
-						bestDisallowPriority = priority;
-						bestDisallowLine = rule.lineNumber;
-						bestDisallowPattern = rule.pattern;
-					}
+	/**
+	 * Find the best Allow and Disallow match for a path, stored in evaluation.
+	 * If onRule is given, it is called for every rule in file order with its
+	 * priority, or null if the rule was skipped.
+	 */
+	private evaluateRules(
+		path: string,
+		ruleSet: RuleSet,
+		evaluation: RuleEvaluation,
+		onRule?: (rule: ParsedRule, priority: number | null) => void,
+	): RuleEvaluation {
+		// Only rules whose literal prefix starts the path can match, so with an
+		// index the others are skipped. Rules are still visited in file order.
+		const rules = ruleSet.rules;
+		const candidates = ruleSet.index ? ruleSet.index.lookup(path) : null;
+		const count = candidates ? candidates.length : rules.length;
+
+		evaluation.bestAllowPriority = K_NO_MATCH_PRIORITY;
+		evaluation.bestAllowRule = null;
+		evaluation.bestDisallowPriority = K_NO_MATCH_PRIORITY;
+		evaluation.bestDisallowRule = null;
+		evaluation.firstMatchWins = this.matchStrategy.firstMatchWins === true;
+
+		// Like RobotsMatcher, a derived index.html rule is only tried if the Allow
+		// it was derived from (the rule before it) did not match
+		let matchedAllowPosition = -1;
+
+		for (let i = 0; i < count; i++) {
+			const position = candidates ? candidates[i] : i;
+			const compiledRule = rules[position];
+			const rule = compiledRule.rule;
+
+			// With a first-match strategy, the first deciding match ends the search
+			if (
+				evaluation.firstMatchWins &&
+				(evaluation.bestAllowPriority > 0 ||
+					evaluation.bestDisallowPriority > 0)
+			) {
+				if (!onRule) break;
+				onRule(rule, null);
+				continue;
+			}
+
+			if (rule.isAllow) {
+				if (rule.isDerived && matchedAllowPosition === position - 1) {
+					onRule?.(rule, null);
+					continue;
+				}
+				const priority = this.matchAllow(path, compiledRule);
+				onRule?.(rule, priority);
+				if (priority >= 0) matchedAllowPosition = position;
+				if (priority > evaluation.bestAllowPriority) {
+					evaluation.bestAllowPriority = priority;
+					evaluation.bestAllowRule = rule;
+				}
+			} else {
+				const priority = this.matchDisallow(path, compiledRule);
+				onRule?.(rule, priority);
+				if (priority > evaluation.bestDisallowPriority) {
+					evaluation.bestDisallowPriority = priority;
+					evaluation.bestDisallowRule = rule;
 				}
 			}
 		}
 
-		// Determine result using longest-match semantics
-		// When priorities are equal, Allow wins (RFC 9309 compliance)
-		const allowed = bestDisallowPriority <= bestAllowPriority;
-
-		// Determine which rule actually won
-		let matchingLine = 0;
-		let matchedPattern = "";
-		let matchedRuleType: "allow" | "disallow" | "none" = "none";
-
-		if (bestAllowPriority > bestDisallowPriority) {
-			matchingLine = bestAllowLine;
-			matchedPattern = bestAllowPattern;
-			matchedRuleType = "allow";
-		} else if (bestDisallowPriority > bestAllowPriority) {
-			matchingLine = bestDisallowLine;
-			matchedPattern = bestDisallowPattern;
-			matchedRuleType = "disallow";
-		} else if (bestAllowPriority >= 0) {
-			// Tie goes to allow
-			matchingLine = bestAllowLine;
-			matchedPattern = bestAllowPattern;
-			matchedRuleType = "allow";
+		return evaluation;
+	}
+
+	/**
+	 * Build the result of a URL check from the decision.
+	 */
+	private buildResult(
+		url: string,
+		decision: Decision,
+		specificAgents: string[],
+	): UrlCheckResult {
+		const matchedRule = decision.matchedRule;
+		if (!matchedRule) {
+			// No rules decided, everything stays at default
+			return {
+				url,
+				allowed: decision.allowed,
+				matchingLine: 0,
+				matchedPattern: "",
+				matchedRuleType: "none",
+				matchedAgent: "",
+				matchedGroup: -1,
+				everSeenSpecificAgent: specificAgents.length > 0,
+			};
 		}
-		// else: no rules matched, everything stays at default
 
 		return {
 			url,
-			allowed,
-			matchingLine,
-			matchedPattern,
-			matchedRuleType,
+			allowed: decision.allowed,
+			matchingLine: matchedRule.lineNumber,
+			matchedPattern: matchedRule.pattern,
+			matchedRuleType: matchedRule.isAllow ? "allow" : "disallow",
+			matchedAgent: this.agentForRule(matchedRule, specificAgents),
+			matchedGroup: this.ruleGroups.get(matchedRule)!,
+			everSeenSpecificAgent: specificAgents.length > 0,
 		};
 	}
 }
@@ -12,15 +12,21 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { K_MAX_LINE_LEN, UTF8_BOM } from "./constants.js";
-import { ParsedRobotsKey } from "./parsed-key.js";
+import {
+	K_ALLOW_FREQUENT_TYPOS,
+	K_MAX_LINE_LEN,
+	UTF8_BOM,
+} from "./constants.js";
+import { ParsedRobotsKey, type ParsedKeyResult } from "./parsed-key.js";
 import {
 	KeyType,
 	RobotsParseHandler,
 	createLineMetadata,
 	type LineMetadata,
+	type ParseOptions,
+	type RobotsBody,
 } from "./types.js";
-import { maybeEscapePattern } from "./url-utils.js";
+import { maybeEscapePattern, maybeEscapePatternBytes } from "./url-utils.js";
 
 /**
  * Result of parsing a key-value pair from a line.
@@ -31,18 +37,144 @@ interface KeyValueResult {
 	metadata: LineMetadata;
 }
 
+const utf8Decoder = new TextDecoder("utf-8");
+
+/**
+ * Convert bytes to a "binary string" holding one char (0-255) per byte.
+ */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+	let result = "";
+	for (let i = 0; i < bytes.length; i += 8192) {
+		result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	}
+	return result;
+}
+
+/**
+ * Convert a binary string (one char per byte) back to bytes.
+ */
+export function binaryStringToBytes(str: string): Uint8Array {
+	const bytes = new Uint8Array(str.length);
+	for (let i = 0; i < str.length; i++) {
+		bytes[i] = str.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Check if a character code is ASCII whitespace (as in C isspace()).
+ */
+function isAsciiSpace(ch: number): boolean {
+	return ch === 0x20 || (ch >= 0x09 && ch <= 0x0d);
+}
+
+/**
+ * Strip leading and trailing ASCII whitespace only. Used for binary strings,
+ * where chars >= 0x80 are raw UTF-8 octets and must never be trimmed.
+ */
+export function trimAsciiWhitespace(str: string): string {
+	let start = 0;
+	let end = str.length;
+	while (start < end && isAsciiSpace(str.charCodeAt(start))) start++;
+	while (end > start && isAsciiSpace(str.charCodeAt(end - 1))) end--;
+	return str.slice(start, end);
+}
+
+/**
+ * Number of UTF-8 bytes of a UTF-16 code unit, for measuring string input in
+ * bytes. Each half of a surrogate pair counts 2; lone surrogates, which have
+ * no UTF-8 encoding, count 2 as well.
+ */
+export function utf8Length(code: number): number {
+	if (code < 0x80) return 1;
+	if (code < 0x800 || (code >= 0xd800 && code <= 0xdfff)) return 2;
+	return 3;
+}
+
 /**
  * Internal parser class for robots.txt files.
+ *
+ * The parser is push-based: after start(), the body is fed through write()
+ * in one or more chunks and end() flushes the final line. Line state (partial
+ * line, pending CR, BOM prefix) is carried across chunk boundaries.
+ *
+ * When a maximum body size is set, parsing stops at the limit. A line ending
+ * right at the limit still completes its line, but a line cut off by the
+ * limit is dropped rather than emitted as a (possibly broader) rule. String
+ * input is measured in UTF-8 bytes, like the body it was decoded from.
+ *
+ * Byte input is split into lines on raw bytes and each line is handled as a
+ * binary string, so that BOM skipping, the line length limit and escaping of
+ * non-ASCII octets all operate on bytes. Keys and unescaped values are decoded
+ * as UTF-8 before being passed to the handler.
  */
-class RobotsTxtParser {
-	private readonly robotsBody: string;
+export class RobotsTxtParser {
 	private readonly handler: RobotsParseHandler;
 	private readonly parsedKey: ParsedRobotsKey;
+	private readonly allowWhitespaceSeparator: boolean;
+	private readonly skipBom: boolean;
+	private readonly maxLineLength: number;
+	private readonly maxBodySize: number;
 
-	constructor(robotsBody: string, handler: RobotsParseHandler) {
-		this.robotsBody = robotsBody;
+	/** Whether the body is bytes; undefined until the first non-empty chunk. */
+	private isBinary: boolean | undefined = undefined;
+	/** Kept part of the current line from previous chunks. */
+	private pendingLine = "";
+	/** Number of units kept for the current line. */
+	private lineLen = 0;
+	private lineNum = 0;
+	private bomPos = 0;
+	private lastWasCarriageReturn = false;
+	private lineTooLong = false;
+	/** Number of bytes consumed so far, including the BOM. */
+	private bodySize = 0;
+	/** Whether a line ending past the maximum body size was consumed. */
+	private pastLimit = false;
+	private truncated = false;
+
+	constructor(handler: RobotsParseHandler, options: ParseOptions = {}) {
 		this.handler = handler;
-		this.parsedKey = new ParsedRobotsKey();
+		this.parsedKey = new ParsedRobotsKey(
+			options.allowFrequentTypos ?? K_ALLOW_FREQUENT_TYPOS,
+			options.exactKeyMatch ?? false,
+			options.directives,
+		);
+		this.allowWhitespaceSeparator = options.allowWhitespaceSeparator ?? true;
+		this.skipBom = options.skipBom ?? true;
+		this.maxLineLength = options.maxLineLength ?? K_MAX_LINE_LEN;
+		this.maxBodySize = options.maxBodySize ?? Infinity;
+	}
+
+	/**
+	 * Returns true if the body exceeded the maximum body size. Any further
+	 * input is ignored.
+	 */
+	isTruncated(): boolean {
+		return this.truncated;
+	}
+
+	/**
+	 * Trim whitespace from a (possibly binary) line fragment.
+	 */
+	private trim(str: string): string {
+		return this.isBinary ? trimAsciiWhitespace(str) : str.trim();
+	}
+
+	/**
+	 * Decode a line fragment to text. Binary strings are decoded as UTF-8,
+	 * with invalid sequences replaced by U+FFFD.
+	 */
+	private decode(str: string): string {
+		return this.isBinary ? utf8Decoder.decode(binaryStringToBytes(str)) : str;
+	}
+
+	/**
+	 * Escape a pattern value. Binary strings are escaped per byte.
+	 */
+	private escape(str: string): string {
+		return this.isBinary
+			? maybeEscapePatternBytes(binaryStringToBytes(str)).escaped
+			: maybeEscapePattern(str).escaped;
 	}
 
 	/**
@@ -52,6 +184,7 @@ class RobotsTxtParser {
 		switch (keyType) {
 			case KeyType.USER_AGENT:
 			case KeyType.SITEMAP:
+			case KeyType.CUSTOM:
 				return false;
 			default:
 				return true;
@@ -73,7 +206,7 @@ class RobotsTxtParser {
 		}
 
 		// Trim whitespace
-		processedLine = processedLine.trim();
+		processedLine = this.trim(processedLine);
 
 		// If the line became empty after removing the comment, return.
 		if (processedLine.length === 0) {
@@ -90,6 +223,9 @@ class RobotsTxtParser {
 		let sepPos = processedLine.indexOf(":");
 
 		if (sepPos === -1) {
+			if (!this.allowWhitespaceSeparator) {
+				return { key: "", value: "", metadata };
+			}
 			// Google-specific optimization: some people forget the colon, so we need to
 			// accept whitespace in its stead.
 			const parts = processedLine.split(/[ \t]+/);
@@ -109,8 +245,8 @@ class RobotsTxtParser {
 		}
 
 		// Extract key and value
-		const key = processedLine.slice(0, sepPos).trim();
-		const value = processedLine.slice(sepPos + 1).trim();
+		const key = this.trim(processedLine.slice(0, sepPos));
+		const value = this.trim(processedLine.slice(sepPos + 1));
 
 		if (key.length > 0) {
 			metadata.hasDirective = true;
@@ -125,11 +261,11 @@ class RobotsTxtParser {
 	 */
 	private emitKeyValueToHandler(
 		lineNum: number,
-		keyType: KeyType,
+		keyResult: ParsedKeyResult,
+		key: string,
 		value: string,
-		unknownText?: string,
 	): void {
-		switch (keyType) {
+		switch (keyResult.type) {
 			case KeyType.USER_AGENT:
 				this.handler.handleUserAgent(lineNum, value);
 				break;
@@ -142,8 +278,24 @@ class RobotsTxtParser {
 			case KeyType.SITEMAP:
 				this.handler.handleSitemap(lineNum, value);
 				break;
+			case KeyType.CUSTOM: {
+				const definition = keyResult.directive!;
+				this.handler.handleDirective(lineNum, {
+					name: definition.name,
+					key,
+					rawValue: value,
+					value: definition.parseValue ? definition.parseValue(value) : value,
+					scope: definition.scope,
+					isTypo: keyResult.isAcceptableTypo,
+				});
+				break;
+			}
 			case KeyType.UNKNOWN:
-				this.handler.handleUnknownAction(lineNum, unknownText || "", value);
+				this.handler.handleUnknownAction(
+					lineNum,
+					keyResult.unknownText || "",
+					value,
+				);
 				break;
 		}
 	}
@@ -164,23 +316,24 @@ class RobotsTxtParser {
 			return;
 		}
 
-		const keyResult = this.parsedKey.parse(key);
+		const keyText = this.decode(key);
+		const keyResult = this.parsedKey.parse(keyText);
 		metadata.isAcceptableTypo = keyResult.isAcceptableTypo;
+		metadata.isPrefixMatch = keyResult.isPrefixMatch;
 
 		if (this.needEscapeValueForKey(keyResult.type)) {
-			const { escaped } = maybeEscapePattern(value);
 			this.emitKeyValueToHandler(
 				lineNum,
-				keyResult.type,
-				escaped,
-				keyResult.unknownText,
+				keyResult,
+				keyText,
+				this.escape(value),
 			);
 		} else {
 			this.emitKeyValueToHandler(
 				lineNum,
-				keyResult.type,
-				value,
-				keyResult.unknownText,
+				keyResult,
+				keyText,
+				this.decode(value),
 			);
 		}
 
@@ -188,82 +341,176 @@ class RobotsTxtParser {
 	}
 
 	/**
-	 * Parse the robots.txt body.
+	 * Start parsing a new robots.txt body.
 	 */
-	parse(): void {
-		let lineBuffer = "";
-		let lineNum = 0;
-		let bomPos = 0;
-		let lastWasCarriageReturn = false;
-		let lineTooLong = false;
+	start(): void {
+		this.isBinary = undefined;
+		this.pendingLine = "";
+		this.lineLen = 0;
+		this.lineNum = 0;
+		this.bomPos = this.skipBom ? 0 : UTF8_BOM.length;
+		this.lastWasCarriageReturn = false;
+		this.lineTooLong = false;
+		this.bodySize = 0;
+		this.pastLimit = false;
+		this.truncated = false;
 
 		this.handler.handleRobotsStart();
+	}
+
+	/**
+	 * Feed the next chunk of the body. All chunks of a body must be either
+	 * strings or bytes.
+	 */
+	write(chunk: RobotsBody): void {
+		const body = chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk;
+		if (body.length === 0 || this.truncated) return;
 
-		// Process each byte
-		for (let i = 0; i < this.robotsBody.length; i++) {
-			const ch = this.robotsBody.charCodeAt(i);
+		const isBinary = typeof body !== "string";
+		if (this.isBinary === undefined) {
+			this.isBinary = isBinary;
+		} else if (this.isBinary !== isBinary) {
+			throw new Error("Cannot mix string and binary robots.txt chunks");
+		}
+
+		const unitAt = (index: number): number =>
+			typeof body === "string" ? body.charCodeAt(index) : body[index];
+		const unitSize = (index: number): number =>
+			typeof body === "string" ? utf8Length(body.charCodeAt(index)) : 1;
+		const lineAt = (start: number, length: number): string =>
+			typeof body === "string"
+				? body.slice(start, start + length)
+				: bytesToBinaryString(body.subarray(start, start + length));
+
+		let i = 0;
 
-			// Google-specific optimization: UTF-8 byte order marks should never
-			// appear in a robots.txt file, but they do nevertheless. Skipping
-			// possible BOM-prefix in the first bytes of the input.
-			if (bomPos < UTF8_BOM.length && ch === UTF8_BOM[bomPos]) {
-				bomPos++;
-				continue;
+		// Google-specific optimization: UTF-8 byte order marks should never
+		// appear in a robots.txt file, but they do nevertheless. Skipping
+		// possible BOM-prefix in the first bytes of the input.
+		while (
+			this.bomPos < UTF8_BOM.length &&
+			i < body.length &&
+			this.bodySize + unitSize(i) <= this.maxBodySize
+		) {
+			if (unitAt(i) !== UTF8_BOM[this.bomPos]) {
+				this.bomPos = UTF8_BOM.length; // Disable BOM check after mismatch
+				break;
 			}
-			bomPos = UTF8_BOM.length; // Disable BOM check after mismatch
+			this.bomPos++;
+			this.bodySize += unitSize(i);
+			i++;
+		}
 
-			const char = this.robotsBody[i];
+		// Start and length of the kept part of the current line in this chunk
+		let segStart = i;
+		let segLen = 0;
+
+		// Process each byte (each UTF-16 code unit for string input)
+		for (; i < body.length; i++) {
+			const ch = unitAt(i);
+			const isLineEnding = ch === 0x0a || ch === 0x0d;
+
+			// Stop at the maximum body size. A line ending (CR, LF or CRLF) right
+			// past the limit still terminates the current line and doesn't count
+			// as cutting anything off; anything else leaves a partial line, which
+			// end() drops.
+			const size = unitSize(i);
+			if (this.bodySize + size > this.maxBodySize) {
+				const endsLine =
+					isLineEnding &&
+					(!this.pastLimit || (this.lastWasCarriageReturn && ch === 0x0a));
+				if (!endsLine) {
+					this.truncated = true;
+					break;
+				}
+				this.pastLimit = true;
+			} else {
+				this.bodySize += size;
+			}
 
 			// Line ending check: LF (0x0A) or CR (0x0D)
-			if (ch === 0x0a || ch === 0x0d) {
+			if (isLineEnding) {
 				// Only emit an empty line if this was not due to the second character
 				// of the DOS line-ending \r\n
 				const isCRLFContinuation =
-					lineBuffer.length === 0 && lastWasCarriageReturn && ch === 0x0a;
+					this.lineLen === 0 && this.lastWasCarriageReturn && ch === 0x0a;
 
 				if (!isCRLFContinuation) {
-					lineNum++;
-					this.parseAndEmitLine(lineNum, lineBuffer, lineTooLong);
-					lineTooLong = false;
+					this.lineNum++;
+					this.parseAndEmitLine(
+						this.lineNum,
+						this.pendingLine + lineAt(segStart, segLen),
+						this.lineTooLong,
+					);
+					this.lineTooLong = false;
 				}
 
-				lineBuffer = "";
-				lastWasCarriageReturn = ch === 0x0d;
+				this.pendingLine = "";
+				this.lineLen = 0;
+				segStart = i + 1;
+				segLen = 0;
+				this.lastWasCarriageReturn = ch === 0x0d;
 			} else {
 				// Non-line-ending char case
 				// Put in next spot on current line, as long as there's room.
-				// Note: K_MAX_LINE_LEN - 1 to match C++ behavior (reserve space for null terminator)
-				if (lineBuffer.length < K_MAX_LINE_LEN - 1) {
-					lineBuffer += char;
+				// Note: maxLineLength - 1 to match C++ behavior (reserve space for null terminator)
+				if (this.lineLen < this.maxLineLength - 1) {
+					this.lineLen++;
+					segLen++;
 				} else {
-					lineTooLong = true;
+					this.lineTooLong = true;
 				}
-				lastWasCarriageReturn = false;
+				this.lastWasCarriageReturn = false;
 			}
 		}
 
-		// Handle final line (always emit, matching C++ behavior)
-		lineNum++;
-		this.parseAndEmitLine(lineNum, lineBuffer, lineTooLong);
+		// Keep the unfinished line for the next chunk
+		this.pendingLine += lineAt(segStart, segLen);
+	}
+
+	/**
+	 * Finish parsing: emit the final line and signal the end of the body.
+	 */
+	end(): void {
+		this.lineNum++;
+		if (this.truncated) {
+			// Only report where the body was cut off; the partial line could
+			// otherwise turn into a rule the webmaster never wrote.
+			const metadata = createLineMetadata();
+			metadata.isTruncated = true;
+			this.handler.reportLineMetadata(this.lineNum, metadata);
+		} else {
+			// Handle final line (always emit, matching C++ behavior)
+			this.parseAndEmitLine(this.lineNum, this.pendingLine, this.lineTooLong);
+		}
+		this.pendingLine = "";
 
 		this.handler.handleRobotsEnd();
 	}
 }
 
 /**
- * Parses body of a robots.txt and emits parse callbacks. This will accept
- * typical typos found in robots.txt, such as 'disalow'.
+ * Parses body of a robots.txt and emits parse callbacks. By default this will
+ * accept typical typos found in robots.txt, such as 'disalow'.
  *
  * Note, this function will accept all kind of input but will skip
  * everything that does not look like a robots directive.
  *
- * @param robotsBody - The robots.txt content to parse
+ * Pass the raw response body as a Uint8Array or ArrayBuffer to get byte
+ * accurate results: the BOM check and the line length limit then count bytes,
+ * and invalid UTF-8 in rules is %-escaped octet by octet like Google does.
+ *
+ * @param robotsBody - The robots.txt content to parse (text or raw bytes)
  * @param handler - The handler to receive parse callbacks
+ * @param options - Parse options; defaults to handler.getParseOptions()
  */
 export function parseRobotsTxt(
-	robotsBody: string,
+	robotsBody: RobotsBody,
 	handler: RobotsParseHandler,
+	options: ParseOptions = handler.getParseOptions(),
 ): void {
-	const parser = new RobotsTxtParser(robotsBody, handler);
-	parser.parse();
+	const parser = new RobotsTxtParser(handler, options);
+	parser.start();
+	parser.write(robotsBody);
+	parser.end();
 }
@@ -0,0 +1,223 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { K_MAX_CRAWL_DELAY } from "./constants.js";
+import { RobotsMatcher } from "./matcher.js";
+import type { UrlCheckResult } from "./parsed-robots.js";
+import { RobotsCache } from "./robots-cache.js";
+import {
+	RobotsFetcher,
+	getRobotsOrigin,
+	type FetchFunction,
+} from "./robots-fetcher.js";
+
+/** Number of reserved slots at which the first sweep of expired ones runs */
+const K_SLOT_SWEEP_MIN_SIZE = 64;
+
+/**
+ * A fetch() for page URLs that obeys robots.txt, see createPoliteFetch().
+ */
+export type PoliteFetch = (
+	url: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * Options for createPoliteFetch().
+ */
+export interface PoliteFetchOptions {
+	/**
+	 * User-Agent header sent with every request, e.g.
+	 * 'MyBot/1.0 (+https://example.com/bot)'. Its product token (here
+	 * 'MyBot') is the user-agent matched against robots.txt.
+	 */
+	userAgent: string;
+	/**
+	 * The user-agent to match against robots.txt, if not the product token of
+	 * userAgent. Must only contain [a-zA-Z_-].
+	 */
+	productToken?: string;
+	/** The fetch function to use. Default: globalThis.fetch. */
+	fetch?: FetchFunction;
+	/**
+	 * The robots.txt cache. Default: a RobotsCache fetching with the fetch
+	 * function and userAgent.
+	 */
+	cache?: RobotsCache;
+	/**
+	 * Seconds between requests to an origin whose robots.txt has no
+	 * crawl-delay for the user-agent. Default: 0.
+	 */
+	defaultCrawlDelay?: number;
+	/** Longest crawl-delay to obey, in seconds. Default: K_MAX_CRAWL_DELAY. */
+	maxCrawlDelay?: number;
+	/** Clock in milliseconds since the epoch. Default: Date.now. */
+	now?: () => number;
+	/** Wait for a number of milliseconds. Default: setTimeout. */
+	sleep?: (milliseconds: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Thrown by a polite fetch for a URL that robots.txt disallows.
+ */
+export class RobotsDisallowedError extends Error {
+	/** The disallowed URL */
+	public readonly url: string;
+	/** The user-agent the robots.txt was checked for */
+	public readonly userAgent: string;
+	/** Why the URL is disallowed, e.g. the matching rule */
+	public readonly result: UrlCheckResult;
+
+	constructor(url: string, userAgent: string, result: UrlCheckResult) {
+		const rule =
+			result.matchingLine > 0
+				? ` (line ${result.matchingLine}: Disallow: ${result.matchedPattern})`
+				: "";
+		super(`Disallowed by robots.txt for ${userAgent}: ${url}${rule}`);
+		this.name = "RobotsDisallowedError";
+		this.url = url;
+		this.userAgent = userAgent;
+		this.result = result;
+	}
+}
+
+/**
+ * Wait with setTimeout, rejecting with the reason if the signal aborts.
+ */
+function sleep(milliseconds: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, milliseconds);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Creates a fetch() for crawling that obeys robots.txt. Before each request
+ * it:
+ *
+ * 1. looks up the robots.txt of the URL's origin in the cache, and throws a
+ *    RobotsDisallowedError if the URL is disallowed for the user-agent
+ * 2. waits until the crawl-delay of the robots.txt has passed since the last
+ *    request to the same origin; concurrent requests queue up
+ * 3. sends the request with the configured User-Agent header
+ *
+ * Redirects are followed by the fetch function without checking robots.txt.
+ * Pass redirect: 'manual' and call the polite fetch for the Location to check
+ * every hop.
+ *
+ * @example
+ * ```typescript
+ * const politeFetch = createPoliteFetch({ userAgent: "MyBot/1.0" });
+ * try {
+ *   const response = await politeFetch("https://example.com/page");
+ * } catch (error) {
+ *   if (error instanceof RobotsDisallowedError) console.log(error.result);
+ * }
+ * ```
+ *
+ * @param options - The user-agent and optional fetch function, cache and
+ *   crawl-delay settings
+ * @returns The polite fetch function
+ * @throws Error if the product token isn't a valid user-agent to obey
+ */
+export function createPoliteFetch(options: PoliteFetchOptions): PoliteFetch {
+	const userAgent = options.userAgent;
+	const productToken = options.productToken ?? userAgent.split(/[\s/]/, 1)[0];
+	if (!RobotsMatcher.isValidUserAgentToObey(productToken)) {
+		throw new Error(
+			`Invalid user-agent product token to obey: '${productToken}' (only [a-zA-Z_-] allowed)`,
+		);
+	}
+
+	const fetchFunction: FetchFunction =
+		options.fetch ?? ((input, init) => fetch(input, init));
+	const cache =
+		options.cache ??
+		new RobotsCache({
+			fetcher: new RobotsFetcher({ fetch: fetchFunction, userAgent }),
+		});
+	const defaultCrawlDelay = options.defaultCrawlDelay ?? 0;
+	const maxCrawlDelay = options.maxCrawlDelay ?? K_MAX_CRAWL_DELAY;
+	const now = options.now ?? Date.now;
+	const wait = options.sleep ?? sleep;
+	/**
+	 * When the next request to each origin may start. Like the robots.txt
+	 * cache, slots are per origin, so http and https of a host don't share
+	 * one. Expired slots are dropped when their origin is requested again and
+	 * by a sweep whenever the map has doubled, so it stays bounded by the
+	 * origins with a slot ahead at amortized constant cost.
+	 */
+	const nextRequestAt = new Map<string, number>();
+	let sweepAtSize = K_SLOT_SWEEP_MIN_SIZE;
+	const pruneExpiredSlots = (time: number) => {
+		for (const [origin, next] of nextRequestAt) {
+			if (next <= time) nextRequestAt.delete(origin);
+		}
+		sweepAtSize = Math.max(K_SLOT_SWEEP_MIN_SIZE, nextRequestAt.size * 2);
+	};
+
+	return async (url, init = {}) => {
+		const { robots } = await cache.get(url);
+		const result = robots.checkUrl(productToken, url);
+		if (!result.allowed) {
+			throw new RobotsDisallowedError(url, productToken, result);
+		}
+
+		const origin = getRobotsOrigin(url);
+		const crawlDelay =
+			robots.getCrawlDelay(productToken, maxCrawlDelay).delay ??
+			Math.min(defaultCrawlDelay, maxCrawlDelay);
+		// Reserve the slot before waiting, so the next request queues behind it
+		const time = now();
+		const previous = nextRequestAt.get(origin) ?? 0;
+		if (previous > 0 && previous <= time) {
+			nextRequestAt.delete(origin);
+		}
+		const start = Math.max(time, previous);
+		const next = start + crawlDelay * 1000;
+		if (next > time) {
+			nextRequestAt.set(origin, next);
+			if (nextRequestAt.size >= sweepAtSize) pruneExpiredSlots(time);
+		}
+		const waitTime = start - time;
+		if (waitTime > 0) {
+			try {
+				await wait(waitTime, init.signal ?? undefined);
+			} catch (error) {
+				// The request is never sent: give the slot back unless a later
+				// request already queued behind it. Waiting means the previous
+				// slot was still ahead, so it starts where this one would have.
+				if (nextRequestAt.get(origin) === next) {
+					nextRequestAt.set(origin, start);
+				}
+				throw error;
+			}
+		}
+
+		const headers = new Headers(init.headers);
+		headers.set("user-agent", userAgent);
+		return fetchFunction(url, { ...init, headers });
+	};
+}
@@ -18,6 +18,8 @@ import {
 	RobotsTagName,
 	createRobotsParsedLine,
 	type LineMetadata,
+	type ParseOptions,
+	type RobotsDirective,
 	type RobotsParsedLine,
 } from "./types.js";
 
@@ -34,6 +36,24 @@ export class RobotsParsingReporter extends RobotsParseHandler {
 	private lastLineSeenValue: number = 0;
 	private validDirectivesValue: number = 0;
 	private unusedDirectivesValue: number = 0;
+	private truncatedAtLineValue: number = 0;
+	private readonly parseOptions: ParseOptions;
+
+	/**
+	 * @param parseOptions - Options used when parseRobotsTxt() is called with
+	 *   this reporter, e.g. to report on strict RFC 9309 parsing
+	 */
+	constructor(parseOptions: ParseOptions = {}) {
+		super();
+		this.parseOptions = parseOptions;
+	}
+
+	/**
+	 * Returns the parse options this reporter was created with.
+	 */
+	public getParseOptions(): ParseOptions {
+		return this.parseOptions;
+	}
 
 	/**
 	 * Get the last line number seen during parsing.
@@ -56,6 +76,14 @@ export class RobotsParsingReporter extends RobotsParseHandler {
 		return this.unusedDirectivesValue;
 	}
 
+	/**
+	 * Get the line at which the body was cut off by the maximum body size, or 0
+	 * if the whole body was parsed.
+	 */
+	public truncatedAtLine(): number {
+		return this.truncatedAtLineValue;
+	}
+
 	/**
 	 * Get the parse results as an array sorted by line number.
 	 */
@@ -98,6 +126,7 @@ export class RobotsParsingReporter extends RobotsParseHandler {
 		this.lastLineSeenValue = 0;
 		this.validDirectivesValue = 0;
 		this.unusedDirectivesValue = 0;
+		this.truncatedAtLineValue = 0;
 		this.robotsParseResults.clear();
 	}
 
@@ -138,10 +167,17 @@ export class RobotsParsingReporter extends RobotsParseHandler {
 		this.digest(lineNum, tagName);
 	}
 
+	public handleDirective(lineNum: number, _directive: RobotsDirective): void {
+		this.digest(lineNum, RobotsTagName.Custom);
+	}
+
 	public reportLineMetadata(lineNum: number, metadata: LineMetadata): void {
 		if (lineNum > this.lastLineSeenValue) {
 			this.lastLineSeenValue = lineNum;
 		}
+		if (metadata.isTruncated) {
+			this.truncatedAtLineValue = lineNum;
+		}
 
 		let line = this.robotsParseResults.get(lineNum);
 		if (!line) {
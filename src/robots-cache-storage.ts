@@ -0,0 +1,350 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { K_MAX_UNREACHABLE_AGE } from "./constants.js";
+import type {
+	MatchStrategyName,
+	RobotsMatchStrategy,
+} from "./match-strategy.js";
+import { ParsedRobots, type ParsedRobotsSnapshot } from "./parsed-robots.js";
+import type { RobotsCacheEntry } from "./robots-cache.js";
+import type {
+	RobotsFetchOutcome,
+	RobotsFetchReason,
+} from "./robots-fetcher.js";
+
+/** Temporary files of writes that never finished are removed after this */
+const K_TEMP_FILE_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * A RobotsCache entry as plain data, for storing it outside the process.
+ * The fetch metadata is that of RobotsFetchResult, without the error.
+ */
+export interface RobotsCacheRecord {
+	/** The origin (scheme, host and port) the robots.txt applies to */
+	origin: string;
+	/** The parsed robots.txt, from ParsedRobots.toJSON() */
+	robots: ParsedRobotsSnapshot;
+	outcome: RobotsFetchOutcome;
+	reason: RobotsFetchReason;
+	robotsUrl: string;
+	finalUrl: string;
+	redirects: string[];
+	status: number;
+	/** Response headers as name/value pairs, null if there was no response */
+	headers: [string, string][] | null;
+	bodySize: number;
+	isTruncated: boolean;
+	fetchedAt: number;
+	/** When to fetch the robots.txt again, in milliseconds since the epoch */
+	expiresAt: number;
+	/** Since when fetching the robots.txt has failed, or null */
+	unreachableSince: number | null;
+	/** When the record was stored, in milliseconds since the epoch */
+	storedAt: number;
+}
+
+/**
+ * Storage for RobotsCache entries that outlives the process, e.g. on disk or
+ * in a shared key-value store. RobotsCache reads an origin's record when it
+ * isn't in memory and writes it after every fetch.
+ *
+ * Records of a robots.txt that has expired are still useful: they are used
+ * when fetching it again fails. Implementations decide how long to keep them.
+ */
+export interface RobotsCacheStorage {
+	/**
+	 * Read the record of an origin.
+	 * @param origin - The origin, as returned by getRobotsOrigin()
+	 * @returns The record, or undefined if there is none
+	 */
+	get(origin: string): Promise<RobotsCacheRecord | undefined>;
+
+	/**
+	 * Add or replace the record of an origin.
+	 * @param record - The record, keyed by record.origin
+	 */
+	set(record: RobotsCacheRecord): Promise<void>;
+
+	/**
+	 * Remove the record of an origin.
+	 * @param origin - The origin, as returned by getRobotsOrigin()
+	 * @returns Whether there was a record
+	 */
+	delete(origin: string): Promise<boolean>;
+}
+
+/**
+ * Options for FileRobotsCacheStorage.
+ */
+export interface FileRobotsCacheStorageOptions {
+	/** Directory for the records, created when needed */
+	directory: string;
+	/**
+	 * How long a record is kept after it was stored, in milliseconds. Older
+	 * records are ignored and removed by compact(). Default:
+	 * K_MAX_UNREACHABLE_AGE (30 days).
+	 */
+	ttl?: number;
+	/** Clock in milliseconds since the epoch. Default: Date.now. */
+	now?: () => number;
+}
+
+/**
+ * What FileRobotsCacheStorage.compact() did.
+ */
+export interface RobotsCacheCompaction {
+	/** Number of records kept */
+	kept: number;
+	/** Number of expired, unreadable or outdated records removed */
+	removed: number;
+	/** Number of leftover temporary files removed */
+	removedTempFiles: number;
+}
+
+/**
+ * Convert a cache entry to a record.
+ */
+export function toCacheRecord(
+	entry: RobotsCacheEntry,
+	storedAt: number,
+): RobotsCacheRecord {
+	const result = entry.result;
+	return {
+		origin: entry.origin,
+		robots: result.robots.toJSON(),
+		outcome: result.outcome,
+		reason: result.reason,
+		robotsUrl: result.robotsUrl,
+		finalUrl: result.finalUrl,
+		redirects: result.redirects,
+		status: result.status,
+		headers: result.headers ? [...result.headers] : null,
+		bodySize: result.bodySize,
+		isTruncated: result.isTruncated,
+		fetchedAt: result.fetchedAt,
+		expiresAt: entry.expiresAt,
+		unreachableSince: entry.unreachableSince,
+		storedAt,
+	};
+}
+
+/**
+ * Convert a record back to a cache entry.
+ *
+ * @throws Error if the snapshot can't be restored, e.g. it has an older
+ *   version or uses a custom match strategy that wasn't passed
+ */
+export function fromCacheRecord(
+	record: RobotsCacheRecord,
+	matchStrategy?: RobotsMatchStrategy | MatchStrategyName,
+): RobotsCacheEntry {
+	return {
+		origin: record.origin,
+		result: {
+			robots: ParsedRobots.fromJSON(record.robots, matchStrategy),
+			outcome: record.outcome,
+			reason: record.reason,
+			robotsUrl: record.robotsUrl,
+			finalUrl: record.finalUrl,
+			redirects: record.redirects,
+			status: record.status,
+			headers: record.headers ? new Headers(record.headers) : null,
+			bodySize: record.bodySize,
+			isTruncated: record.isTruncated,
+			fetchedAt: record.fetchedAt,
+			unreachableSince: record.unreachableSince,
+		},
+		expiresAt: record.expiresAt,
+		unreachableSince: record.unreachableSince,
+	};
+}
+
+/**
+ * Whether an error is a file system error with the given code.
+ */
+function hasErrorCode(error: unknown, code: string): boolean {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		(error as { code?: unknown }).code === code
+	);
+}
+
+/**
+ * Whether the snapshot of a record can be restored. A custom match strategy
+ * is assumed to be passed when restoring.
+ */
+function isRestorable(record: RobotsCacheRecord): boolean {
+	try {
+		ParsedRobots.fromJSON(
+			record.robots,
+			record.robots?.matchStrategy ?? "longest-match",
+		);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Stores RobotsCache entries in a directory, one JSON file per origin, so a
+ * restarted crawler doesn't fetch every robots.txt again. Files are written
+ * to a temporary file and renamed, so readers (also in other processes)
+ * never see a partial record.
+ *
+ * Records are kept for ttl after they were stored; call compact() now and
+ * then to delete older ones. Node.js file system and path APIs are loaded on
+ * first use, so importing the package doesn't require them.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RobotsCache({
+ *   storage: new FileRobotsCacheStorage({ directory: "./robots-cache" }),
+ * });
+ * ```
+ */
+export class FileRobotsCacheStorage implements RobotsCacheStorage {
+	private readonly directory: string;
+	private readonly ttl: number;
+	private readonly now: () => number;
+
+	constructor(options: FileRobotsCacheStorageOptions) {
+		this.directory = options.directory;
+		this.ttl = options.ttl ?? K_MAX_UNREACHABLE_AGE;
+		this.now = options.now ?? Date.now;
+	}
+
+	public async get(origin: string): Promise<RobotsCacheRecord | undefined> {
+		const record = await this.read(this.getFileName(origin));
+		if (record?.origin !== origin || this.isExpired(record)) {
+			return undefined;
+		}
+		return record;
+	}
+
+	public async set(record: RobotsCacheRecord): Promise<void> {
+		const fs = await import("node:fs/promises");
+		await fs.mkdir(this.directory, { recursive: true });
+		const path = await this.getPath(this.getFileName(record.origin));
+		const tempPath = `${path}.${crypto.randomUUID()}.tmp`;
+		try {
+			await fs.writeFile(tempPath, JSON.stringify(record));
+			await fs.rename(tempPath, path);
+		} catch (error) {
+			await fs.rm(tempPath, { force: true });
+			throw error;
+		}
+	}
+
+	public async delete(origin: string): Promise<boolean> {
+		const fs = await import("node:fs/promises");
+		try {
+			await fs.unlink(await this.getPath(this.getFileName(origin)));
+			return true;
+		} catch (error) {
+			if (hasErrorCode(error, "ENOENT")) return false;
+			throw error;
+		}
+	}
+
+	/**
+	 * Delete records older than ttl, records that can't be read or restored
+	 * (e.g. of an older snapshot version) and temporary files left behind by
+	 * writes that never finished.
+	 *
+	 * @returns Counts of kept and removed files
+	 */
+	public async compact(): Promise<RobotsCacheCompaction> {
+		const fs = await import("node:fs/promises");
+		const compaction: RobotsCacheCompaction = {
+			kept: 0,
+			removed: 0,
+			removedTempFiles: 0,
+		};
+		let fileNames: string[];
+		try {
+			fileNames = await fs.readdir(this.directory);
+		} catch (error) {
+			if (hasErrorCode(error, "ENOENT")) return compaction;
+			throw error;
+		}
+
+		for (const fileName of fileNames.sort()) {
+			const path = await this.getPath(fileName);
+			if (fileName.endsWith(".tmp")) {
+				// Recent ones may belong to a write in progress. Modification times
+				// are in real time, not that of the now option.
+				const stats = await fs.stat(path).catch(() => null);
+				if (stats && Date.now() - stats.mtimeMs > K_TEMP_FILE_MAX_AGE) {
+					await fs.rm(path, { force: true });
+					compaction.removedTempFiles++;
+				}
+				continue;
+			}
+			if (!fileName.endsWith(".json")) continue;
+
+			const record = await this.read(fileName);
+			if (
+				record &&
+				record.origin !== undefined &&
+				this.getFileName(record.origin) === fileName &&
+				!this.isExpired(record) &&
+				isRestorable(record)
+			) {
+				compaction.kept++;
+			} else {
+				await fs.rm(path, { force: true });
+				compaction.removed++;
+			}
+		}
+		return compaction;
+	}
+
+	/**
+	 * Read a record file, or undefined if it is missing or not valid JSON.
+	 */
+	private async read(fileName: string): Promise<RobotsCacheRecord | undefined> {
+		const fs = await import("node:fs/promises");
+		let text: string;
+		try {
+			text = await fs.readFile(await this.getPath(fileName), "utf8");
+		} catch (error) {
+			if (hasErrorCode(error, "ENOENT")) return undefined;
+			throw error;
+		}
+		try {
+			return JSON.parse(text) as RobotsCacheRecord;
+		} catch {
+			return undefined;
+		}
+	}
+
+	private isExpired(record: RobotsCacheRecord): boolean {
+		return this.now() - record.storedAt >= this.ttl;
+	}
+
+	/**
+	 * File name of an origin's record. Origins are lowercase, so names don't
+	 * clash on case-insensitive file systems.
+	 */
+	private getFileName(origin: string): string {
+		return `${encodeURIComponent(origin)}.json`;
+	}
+
+	private async getPath(fileName: string): Promise<string> {
+		const { join } = await import("node:path");
+		return join(this.directory, fileName);
+	}
+}
@@ -0,0 +1,425 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+	K_CACHE_MAX_ENTRIES,
+	K_MAX_CACHE_AGE,
+	K_UNREACHABLE_RETRY_AGE,
+} from "./constants.js";
+import type {
+	MatchStrategyName,
+	RobotsMatchStrategy,
+} from "./match-strategy.js";
+import type { ParsedRobots } from "./parsed-robots.js";
+import {
+	fromCacheRecord,
+	toCacheRecord,
+	type RobotsCacheStorage,
+} from "./robots-cache-storage.js";
+import {
+	getRobotsOrigin,
+	RobotsFetcher,
+	type RobotsFetchResult,
+} from "./robots-fetcher.js";
+
+/**
+ * Options for RobotsCache.
+ */
+export interface RobotsCacheOptions {
+	/** The fetcher for robots.txt files. Default: a new RobotsFetcher(). */
+	fetcher?: RobotsFetcher;
+	/** Number of origins to keep. Default: K_CACHE_MAX_ENTRIES (10,000). */
+	maxEntries?: number;
+	/**
+	 * Total size of the cached robots.txt bodies in bytes. Default: no limit.
+	 */
+	maxSize?: number;
+	/**
+	 * Longest time to use a robots.txt before fetching it again, in
+	 * milliseconds. Also used when the response has no caching headers.
+	 * Default: K_MAX_CACHE_AGE (24 hours).
+	 */
+	maxAge?: number;
+	/**
+	 * How long to wait before fetching an unreachable robots.txt again, in
+	 * milliseconds. Default: K_UNREACHABLE_RETRY_AGE (5 minutes).
+	 */
+	unreachableRetryAge?: number;
+	/**
+	 * Storage that outlives the process, e.g. FileRobotsCacheStorage. Origins
+	 * that aren't in memory are read from it, and every fetch is written to it.
+	 */
+	storage?: RobotsCacheStorage;
+	/**
+	 * Called when writing to the storage fails. The fetched entry is used
+	 * anyway, so a broken storage only costs persistence. Default: ignore.
+	 */
+	onStorageError?: (error: unknown, origin: string) => void;
+	/**
+	 * The match strategy of stored entries parsed with a custom one. Shipped
+	 * strategies are restored by name.
+	 */
+	matchStrategy?: RobotsMatchStrategy | MatchStrategyName;
+	/** Clock in milliseconds since the epoch. Default: Date.now. */
+	now?: () => number;
+}
+
+/**
+ * How a lookup was answered:
+ *
+ * - 'hit': from a fresh cache entry
+ * - 'miss': by fetching the robots.txt
+ * - 'stale': the fetch failed (server or network error) and the previously
+ *   fetched robots.txt is used instead, as RFC 9309 section 2.4 allows
+ */
+export type RobotsCacheStatus = "hit" | "miss" | "stale";
+
+/**
+ * A cached robots.txt.
+ */
+export interface RobotsCacheEntry {
+	/** The origin (scheme, host and port) the robots.txt applies to */
+	origin: string;
+	/** The fetch the rules come from */
+	result: RobotsFetchResult;
+	/** When to fetch the robots.txt again, in milliseconds since the epoch */
+	expiresAt: number;
+	/**
+	 * Since when fetching the robots.txt has failed, or null if the last
+	 * fetch reached the server.
+	 */
+	unreachableSince: number | null;
+}
+
+/**
+ * The answer to a RobotsCache lookup.
+ */
+export interface RobotsCacheResult {
+	/** The rules to use */
+	robots: ParsedRobots;
+	/** The cache entry the rules come from */
+	entry: RobotsCacheEntry;
+	status: RobotsCacheStatus;
+}
+
+/**
+ * Whether a fetch failed to reach the server, including a robots.txt that
+ * has been unreachable for so long that the fetcher treats it as unavailable.
+ */
+function isFailure(result: RobotsFetchResult): boolean {
+	return (
+		result.outcome === "unreachable" || result.reason === "unreachable-too-long"
+	);
+}
+
+/**
+ * Parse a number of seconds from an HTTP header, or null if invalid.
+ */
+function parseSeconds(value: string | null | undefined): number | null {
+	if (value === null || value === undefined) return null;
+	const trimmed = value.trim().replace(/^"(.*)"$/, "$1");
+	return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
+}
+
+/**
+ * How long a response may be used, in milliseconds, following the freshness
+ * rules of RFC 9111 section 4.2: Cache-Control max-age, else Expires minus
+ * Date, less the Age of the response. no-store and no-cache make a response
+ * stale at once. Returns null if the headers don't say.
+ */
+function getFreshnessLifetime(
+	headers: Headers,
+	fetchedAt: number,
+): number | null {
+	let lifetime: number | null = null;
+	const cacheControl = headers.get("cache-control");
+	if (cacheControl !== null) {
+		for (const directive of cacheControl.split(",")) {
+			const [name = "", value] = directive.split("=", 2);
+			switch (name.trim().toLowerCase()) {
+				case "no-store":
+				case "no-cache":
+					return 0;
+				case "max-age": {
+					const seconds = parseSeconds(value);
+					if (seconds !== null) lifetime = seconds * 1000;
+					break;
+				}
+			}
+		}
+	}
+
+	if (lifetime === null) {
+		const expires = headers.get("expires");
+		if (expires === null) return null;
+		const date = Date.parse(headers.get("date") ?? "");
+		// An invalid Expires means already expired
+		const expiresAt = Date.parse(expires);
+		lifetime = Number.isNaN(expiresAt)
+			? 0
+			: expiresAt - (Number.isNaN(date) ? fetchedAt : date);
+	}
+
+	const age = parseSeconds(headers.get("age")) ?? 0;
+	return Math.max(0, lifetime - age * 1000);
+}
+
+/**
+ * An in-memory cache of robots.txt files per origin (scheme, host and port),
+ * so each robots.txt is fetched and parsed once instead of for every URL.
+ *
+ * - Entries are used for as long as Cache-Control/Expires allow, but never
+ *   longer than maxAge (24 hours by default, per RFC 9309 section 2.4).
+ * - When fetching again fails with a server or network error, the previous
+ *   robots.txt keeps being used ('stale') and the fetch is retried after
+ *   unreachableRetryAge. Without a previous robots.txt everything is
+ *   disallowed until then.
+ * - Concurrent lookups of the same origin share a single fetch.
+ * - The least recently used origins are evicted beyond maxEntries or maxSize.
+ *
+ * @example
+ * ```typescript
+ * const cache = new RobotsCache({
+ *   fetcher: new RobotsFetcher({ userAgent: "MyBot/1.0" }),
+ * });
+ * const { robots } = await cache.get("https://example.com/page");
+ * robots.checkUrl("MyBot", "https://example.com/page");
+ * ```
+ */
+export class RobotsCache {
+	private readonly fetcher: RobotsFetcher;
+	private readonly maxEntries: number;
+	private readonly maxSize: number;
+	private readonly maxAge: number;
+	private readonly unreachableRetryAge: number;
+	private readonly storage: RobotsCacheStorage | undefined;
+	private readonly onStorageError:
+		| ((error: unknown, origin: string) => void)
+		| undefined;
+	private readonly matchStrategy:
+		| RobotsMatchStrategy
+		| MatchStrategyName
+		| undefined;
+	private readonly now: () => number;
+	/** Entries in least recently used order */
+	private readonly entries = new Map<string, RobotsCacheEntry>();
+	private readonly pending = new Map<string, Promise<RobotsCacheResult>>();
+	private totalSize = 0;
+
+	constructor(options: RobotsCacheOptions = {}) {
+		this.fetcher = options.fetcher ?? new RobotsFetcher();
+		this.maxEntries = options.maxEntries ?? K_CACHE_MAX_ENTRIES;
+		this.maxSize = options.maxSize ?? Infinity;
+		this.maxAge = options.maxAge ?? K_MAX_CACHE_AGE;
+		this.unreachableRetryAge =
+			options.unreachableRetryAge ?? K_UNREACHABLE_RETRY_AGE;
+		this.storage = options.storage;
+		this.onStorageError = options.onStorageError;
+		this.matchStrategy = options.matchStrategy;
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Get the robots.txt for a page URL, fetching it if it isn't cached or
+	 * has expired.
+	 *
+	 * @param pageUrl - Any URL on the site
+	 * @returns The rules to use and where they come from
+	 * @throws Error if the URL is invalid or not http(s), or reading the
+	 * storage fails
+	 */
+	public async get(pageUrl: string): Promise<RobotsCacheResult> {
+		const origin = getRobotsOrigin(pageUrl);
+		const entry = this.entries.get(origin);
+		if (entry && entry.expiresAt > this.now()) {
+			this.touch(entry);
+			return { robots: entry.result.robots, entry, status: "hit" };
+		}
+
+		let pending = this.pending.get(origin);
+		if (!pending) {
+			pending = this.lookup(origin, entry).finally(() => {
+				this.pending.delete(origin);
+			});
+			this.pending.set(origin, pending);
+		}
+		return pending;
+	}
+
+	/**
+	 * Get the cache entry of an origin without fetching, even if it has
+	 * expired. Doesn't count as a use for eviction.
+	 *
+	 * @param pageUrl - Any URL on the site
+	 * @returns The entry, or undefined if the origin isn't cached
+	 */
+	public peek(pageUrl: string): RobotsCacheEntry | undefined {
+		return this.entries.get(getRobotsOrigin(pageUrl));
+	}
+
+	/**
+	 * Remove the in-memory entry of an origin. The storage is not changed.
+	 *
+	 * @param pageUrl - Any URL on the site
+	 * @returns Whether the origin was cached
+	 */
+	public delete(pageUrl: string): boolean {
+		const entry = this.entries.get(getRobotsOrigin(pageUrl));
+		if (!entry) return false;
+		this.remove(entry);
+		return true;
+	}
+
+	/**
+	 * Remove all in-memory entries. The storage is not changed.
+	 */
+	public clear(): void {
+		this.entries.clear();
+		this.totalSize = 0;
+	}
+
+	/** Number of cached origins */
+	public get size(): number {
+		return this.entries.size;
+	}
+
+	/** Total size of the cached robots.txt bodies in bytes */
+	public get bodySize(): number {
+		return this.totalSize;
+	}
+
+	/**
+	 * Answer a lookup that the in-memory entries can't: from the storage if
+	 * it has a fresh entry, else by fetching.
+	 */
+	private async lookup(
+		origin: string,
+		entry: RobotsCacheEntry | undefined,
+	): Promise<RobotsCacheResult> {
+		if (!entry && this.storage) {
+			entry = await this.load(origin);
+			if (entry && entry.expiresAt > this.now()) {
+				this.store(entry);
+				return { robots: entry.result.robots, entry, status: "hit" };
+			}
+		}
+		return this.refresh(origin, entry);
+	}
+
+	/**
+	 * Read an origin's entry from the storage.
+	 */
+	private async load(origin: string): Promise<RobotsCacheEntry | undefined> {
+		const record = await this.storage?.get(origin);
+		if (!record) return undefined;
+		try {
+			return fromCacheRecord(record, this.matchStrategy);
+		} catch {
+			// E.g. a snapshot of an older version: fetch the robots.txt again
+			return undefined;
+		}
+	}
+
+	/**
+	 * Fetch the robots.txt of an origin and update its entry.
+	 */
+	private async refresh(
+		origin: string,
+		previous: RobotsCacheEntry | undefined,
+	): Promise<RobotsCacheResult> {
+		const result = await this.fetcher.fetch(origin, {
+			unreachableSince: previous?.unreachableSince ?? null,
+		});
+		const now = this.now();
+
+		if (!isFailure(result)) {
+			const lifetime = result.headers
+				? getFreshnessLifetime(result.headers, result.fetchedAt)
+				: null;
+			const entry = await this.save({
+				origin,
+				result,
+				expiresAt: now + Math.min(lifetime ?? this.maxAge, this.maxAge),
+				unreachableSince: null,
+			});
+			return { robots: result.robots, entry, status: "miss" };
+		}
+
+		const expiresAt = now + this.unreachableRetryAge;
+		if (previous && !isFailure(previous.result)) {
+			const entry = await this.save({
+				...previous,
+				expiresAt,
+				unreachableSince: result.unreachableSince,
+			});
+			return { robots: previous.result.robots, entry, status: "stale" };
+		}
+		const entry = await this.save({
+			origin,
+			result,
+			expiresAt,
+			unreachableSince: result.unreachableSince,
+		});
+		return { robots: result.robots, entry, status: "miss" };
+	}
+
+	/**
+	 * Store an entry in memory and in the storage. A failed write is reported
+	 * but doesn't fail the lookup.
+	 */
+	private async save(entry: RobotsCacheEntry): Promise<RobotsCacheEntry> {
+		this.store(entry);
+		try {
+			await this.storage?.set(toCacheRecord(entry, this.now()));
+		} catch (error) {
+			this.onStorageError?.(error, entry.origin);
+		}
+		return entry;
+	}
+
+	/**
+	 * Add or replace an entry and evict the least recently used ones beyond
+	 * the bounds. The new entry itself is kept even if it alone is too large.
+	 */
+	private store(entry: RobotsCacheEntry): RobotsCacheEntry {
+		const previous = this.entries.get(entry.origin);
+		if (previous) this.remove(previous);
+		this.entries.set(entry.origin, entry);
+		this.totalSize += entry.result.bodySize;
+
+		for (const oldest of this.entries.values()) {
+			if (
+				oldest === entry ||
+				(this.entries.size <= this.maxEntries && this.totalSize <= this.maxSize)
+			) {
+				break;
+			}
+			this.remove(oldest);
+		}
+		return entry;
+	}
+
+	/**
+	 * Mark an entry as the most recently used.
+	 */
+	private touch(entry: RobotsCacheEntry): void {
+		this.entries.delete(entry.origin);
+		this.entries.set(entry.origin, entry);
+	}
+
+	private remove(entry: RobotsCacheEntry): void {
+		this.entries.delete(entry.origin);
+		this.totalSize -= entry.result.bodySize;
+	}
+}
@@ -0,0 +1,497 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+	K_MAX_BODY_SIZE,
+	K_MAX_REDIRECTS,
+	K_MAX_UNREACHABLE_AGE,
+} from "./constants.js";
+import { ParsedRobots } from "./parsed-robots.js";
+import type { ParseOptions } from "./types.js";
+
+/**
+ * A fetch() compatible function, e.g. globalThis.fetch or a test stub.
+ */
+export type FetchFunction = (
+	input: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+/**
+ * What a robots.txt response means for crawling, in the terms of RFC 9309
+ * section 2.3.1:
+ *
+ * - 'success': the robots.txt was fetched and its rules apply
+ * - 'unavailable': there is no robots.txt (4xx), everything is allowed
+ * - 'unreachable': the server failed (5xx) or could not be reached, so
+ *   everything is disallowed
+ */
+export type RobotsFetchOutcome = "success" | "unavailable" | "unreachable";
+
+/**
+ * Why a fetch ended with its outcome.
+ */
+export type RobotsFetchReason =
+	| "ok"
+	| "client-error"
+	| "server-error"
+	| "network-error"
+	| "too-many-redirects"
+	| "invalid-redirect"
+	| "unreachable-too-long";
+
+/**
+ * Options for RobotsFetcher.
+ */
+export interface RobotsFetcherOptions {
+	/** The fetch function to use. Default: globalThis.fetch. */
+	fetch?: FetchFunction;
+	/** User-Agent header sent with requests. Default: none. */
+	userAgent?: string;
+	/** Consecutive redirects to follow. Default: K_MAX_REDIRECTS (5). */
+	maxRedirects?: number;
+	/**
+	 * Number of bytes of the body to read and parse; the rest is not
+	 * downloaded. Default: K_MAX_BODY_SIZE (500 KiB).
+	 */
+	maxBodySize?: number;
+	/** Timeout of each request in milliseconds. Default: none. */
+	timeout?: number;
+	/**
+	 * How long a robots.txt may be unreachable before it is treated as
+	 * unavailable, in milliseconds. Default: K_MAX_UNREACHABLE_AGE (30 days).
+	 */
+	maxUnreachableAge?: number;
+	/** Options for parsing the robots.txt, e.g. the match strategy. */
+	parseOptions?: ParseOptions;
+	/** Clock in milliseconds since the epoch. Default: Date.now. */
+	now?: () => number;
+}
+
+/**
+ * Options for a single RobotsFetcher.fetch() call.
+ */
+export interface RobotsFetchOptions {
+	/**
+	 * Since when the robots.txt has been unreachable (milliseconds since the
+	 * epoch), from the unreachableSince of an earlier result. Once this is
+	 * longer ago than maxUnreachableAge, an unreachable robots.txt is treated
+	 * as unavailable.
+	 */
+	unreachableSince?: number | null;
+	/** Signal to abort the fetch, which then counts as a network error. */
+	signal?: AbortSignal;
+}
+
+/**
+ * The result of fetching a robots.txt.
+ */
+export interface RobotsFetchResult {
+	/** The rules to use: the fetched ones, allow-all or disallow-all */
+	robots: ParsedRobots;
+	outcome: RobotsFetchOutcome;
+	reason: RobotsFetchReason;
+	/** The robots.txt URL derived from the page URL */
+	robotsUrl: string;
+	/** The URL of the last response, after redirects */
+	finalUrl: string;
+	/** The URLs redirected to, in order */
+	redirects: string[];
+	/** HTTP status of the last response (0 if there was none) */
+	status: number;
+	/** Headers of the last response (null if there was none) */
+	headers: Headers | null;
+	/** Number of body bytes parsed */
+	bodySize: number;
+	/**
+	 * Whether the body was cut off at maxBodySize. A single line ending right
+	 * past the limit is not a cut, as in the parser.
+	 */
+	isTruncated: boolean;
+	/** When the fetch finished, in milliseconds since the epoch */
+	fetchedAt: number;
+	/**
+	 * Since when the robots.txt has been unreachable, to pass to the next
+	 * fetch; null if it was reached.
+	 */
+	unreachableSince: number | null;
+	/** The network error, if any */
+	error?: unknown;
+}
+
+/**
+ * Get the robots.txt URL for a page URL: the same scheme, host and port,
+ * with the path '/robots.txt'.
+ *
+ * @param pageUrl - Any URL on the site
+ * @returns The robots.txt URL
+ * @throws Error if the URL is invalid or not http(s)
+ */
+export function getRobotsTxtUrl(pageUrl: string): string {
+	return `${getRobotsOrigin(pageUrl)}/robots.txt`;
+}
+
+/**
+ * Get the origin a robots.txt applies to: the scheme, host and port of a
+ * page URL, e.g. 'https://example.com:8443'. The default port is omitted.
+ *
+ * @param pageUrl - Any URL on the site
+ * @returns The origin
+ * @throws Error if the URL is invalid or not http(s)
+ */
+export function getRobotsOrigin(pageUrl: string): string {
+	let url: URL;
+	try {
+		url = new URL(pageUrl);
+	} catch {
+		throw new Error(`Invalid URL: ${pageUrl}`);
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new Error(`Unsupported URL scheme: ${url.protocol}`);
+	}
+	return `${url.protocol}//${url.host}`;
+}
+
+/**
+ * Combine abort signals into one that aborts when any of them does.
+ */
+function combineSignals(signals: AbortSignal[]): AbortSignal | undefined {
+	if (signals.length <= 1) return signals[0];
+	const controller = new AbortController();
+	for (const signal of signals) {
+		if (signal.aborted) {
+			controller.abort(signal.reason);
+			break;
+		}
+		signal.addEventListener("abort", () => controller.abort(signal.reason), {
+			once: true,
+		});
+	}
+	return controller.signal;
+}
+
+function isRedirect(status: number): boolean {
+	return (
+		status === 301 ||
+		status === 302 ||
+		status === 303 ||
+		status === 307 ||
+		status === 308
+	);
+}
+
+/**
+ * Get the http(s) URL a redirect points to, or null if it has none.
+ */
+function getRedirectTarget(response: Response, url: string): string | null {
+	const location = response.headers.get("location");
+	if (location === null) return null;
+	try {
+		const target = new URL(location, url);
+		return target.protocol === "http:" || target.protocol === "https:"
+			? target.href
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Whether the parser cuts off a body, given the bytes past maxBodySize (three
+ * are enough to tell). Like in RobotsTxtParser.write(), a single line ending
+ * right past the limit is not a cut.
+ */
+function isCutOff(overflow: Uint8Array): boolean {
+	switch (overflow.length) {
+		case 0:
+			return false;
+		case 1:
+			return overflow[0] !== 0x0a && overflow[0] !== 0x0d;
+		case 2:
+			return overflow[0] !== 0x0d || overflow[1] !== 0x0a;
+		default:
+			return true;
+	}
+}
+
+/**
+ * Stop downloading a body that is not needed.
+ */
+async function discardBody(response: Response): Promise<void> {
+	await response.body?.cancel().catch(() => {});
+}
+
+/**
+ * Read at most limit bytes of a body and cancel the rest.
+ */
+async function readBody(
+	response: Response,
+	limit: number,
+): Promise<Uint8Array> {
+	if (!response.body) return new Uint8Array(0);
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	try {
+		while (size < limit) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			chunks.push(value);
+			size += value.length;
+		}
+	} finally {
+		if (size >= limit) {
+			await reader.cancel().catch(() => {});
+		}
+		reader.releaseLock();
+	}
+
+	const body = new Uint8Array(Math.min(size, limit));
+	let offset = 0;
+	for (const chunk of chunks) {
+		const part = chunk.subarray(0, body.length - offset);
+		body.set(part, offset);
+		offset += part.length;
+	}
+	return body;
+}
+
+/**
+ * Where a fetch ended up.
+ */
+interface FetchContext {
+	robotsUrl: string;
+	finalUrl: string;
+	redirects: string[];
+	response: Response | null;
+}
+
+/**
+ * Fetches and parses robots.txt files following RFC 9309: redirects are
+ * followed, a missing robots.txt (4xx) allows everything and a failing
+ * server (5xx, network errors) disallows everything until it has been
+ * unreachable for 30 days.
+ *
+ * The fetch function is injectable, so the fetcher can be tested with a stub
+ * or run against an in-process HTTP server.
+ *
+ * @example
+ * ```typescript
+ * const fetcher = new RobotsFetcher({ userAgent: "MyBot/1.0" });
+ * const { robots, outcome } = await fetcher.fetch("https://example.com/page");
+ * robots.checkUrl("MyBot", "https://example.com/page");
+ * ```
+ */
+export class RobotsFetcher {
+	private readonly fetchFunction: FetchFunction;
+	private readonly userAgent: string | undefined;
+	private readonly maxRedirects: number;
+	private readonly maxBodySize: number;
+	private readonly timeout: number | undefined;
+	private readonly maxUnreachableAge: number;
+	private readonly parseOptions: ParseOptions;
+	private readonly now: () => number;
+
+	constructor(options: RobotsFetcherOptions = {}) {
+		this.fetchFunction = options.fetch ?? ((input, init) => fetch(input, init));
+		this.userAgent = options.userAgent;
+		this.maxRedirects = options.maxRedirects ?? K_MAX_REDIRECTS;
+		this.maxBodySize = options.maxBodySize ?? K_MAX_BODY_SIZE;
+		this.timeout = options.timeout;
+		this.maxUnreachableAge = options.maxUnreachableAge ?? K_MAX_UNREACHABLE_AGE;
+		this.parseOptions = options.parseOptions ?? {};
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Fetch the robots.txt for a page URL. Never rejects for HTTP or network
+	 * failures; they are reported in the result.
+	 *
+	 * @param pageUrl - Any URL on the site, e.g. the page to crawl
+	 * @param options - Per-fetch options, e.g. unreachableSince
+	 * @returns The rules to use and metadata about the fetch
+	 * @throws Error if the URL is invalid or not http(s)
+	 */
+	public async fetch(
+		pageUrl: string,
+		options: RobotsFetchOptions = {},
+	): Promise<RobotsFetchResult> {
+		const context: FetchContext = {
+			robotsUrl: getRobotsTxtUrl(pageUrl),
+			finalUrl: "",
+			redirects: [],
+			response: null,
+		};
+		context.finalUrl = context.robotsUrl;
+
+		for (;;) {
+			try {
+				context.response = await this.request(context.finalUrl, options.signal);
+			} catch (error) {
+				return this.unreachable(context, "network-error", options, error);
+			}
+			if (!isRedirect(context.response.status)) break;
+
+			await discardBody(context.response);
+			const target = getRedirectTarget(context.response, context.finalUrl);
+			if (target === null) {
+				return this.unavailable(context, "invalid-redirect");
+			}
+			// RFC 9309 allows treating longer redirect chains as unavailable
+			if (context.redirects.length >= this.maxRedirects) {
+				return this.unavailable(context, "too-many-redirects");
+			}
+			context.finalUrl = target;
+			context.redirects.push(target);
+		}
+
+		const response = context.response;
+		const status = response.status;
+		if (status >= 200 && status < 300) {
+			let body: Uint8Array;
+			try {
+				// The bytes past the limit tell whether the body goes on beyond a
+				// line ending, like the parser sees it
+				body = await readBody(response, this.maxBodySize + 3);
+			} catch (error) {
+				return this.unreachable(context, "network-error", options, error);
+			}
+			return {
+				...this.metadata(context),
+				robots: ParsedRobots.parse(body, {
+					...this.parseOptions,
+					maxBodySize: this.maxBodySize,
+				}),
+				outcome: "success",
+				reason: "ok",
+				bodySize: Math.min(body.length, this.maxBodySize),
+				isTruncated: isCutOff(body.subarray(this.maxBodySize)),
+				unreachableSince: null,
+			};
+		}
+
+		await discardBody(response);
+		// Redirects that can't be followed, e.g. 300 or 304, and the opaque
+		// redirects (status 0) some fetch implementations return for redirect:
+		// 'manual', say nothing about the server being down
+		if (
+			response.type === "opaqueredirect" ||
+			status === 0 ||
+			(status >= 300 && status < 400)
+		) {
+			return this.unavailable(context, "invalid-redirect");
+		}
+		// Like Google, 429 Too Many Requests counts as a server error: the server
+		// is overloaded, it doesn't say that there is no robots.txt
+		if (status >= 400 && status < 500 && status !== 429) {
+			return this.unavailable(context, "client-error");
+		}
+		return this.unreachable(context, "server-error", options);
+	}
+
+	/**
+	 * Send a single request without following redirects.
+	 */
+	private request(url: string, signal?: AbortSignal): Promise<Response> {
+		const headers: Record<string, string> = {};
+		if (this.userAgent !== undefined) {
+			headers["user-agent"] = this.userAgent;
+		}
+		const signals: AbortSignal[] = [];
+		if (signal) signals.push(signal);
+		if (this.timeout !== undefined) {
+			signals.push(AbortSignal.timeout(this.timeout));
+		}
+
+		return this.fetchFunction(url, {
+			headers,
+			redirect: "manual",
+			signal: combineSignals(signals),
+		});
+	}
+
+	/**
+	 * The metadata shared by all results.
+	 */
+	private metadata(
+		context: FetchContext,
+	): Pick<
+		RobotsFetchResult,
+		"robotsUrl" | "finalUrl" | "redirects" | "status" | "headers" | "fetchedAt"
+	> {
+		return {
+			robotsUrl: context.robotsUrl,
+			finalUrl: context.finalUrl,
+			redirects: context.redirects,
+			status: context.response ? context.response.status : 0,
+			headers: context.response ? context.response.headers : null,
+			fetchedAt: this.now(),
+		};
+	}
+
+	/**
+	 * Result for a missing robots.txt: everything is allowed.
+	 */
+	private unavailable(
+		context: FetchContext,
+		reason: RobotsFetchReason,
+		unreachableSince: number | null = null,
+	): RobotsFetchResult {
+		return {
+			...this.metadata(context),
+			robots: ParsedRobots.parse("", this.parseOptions),
+			outcome: "unavailable",
+			reason,
+			bodySize: 0,
+			isTruncated: false,
+			unreachableSince,
+		};
+	}
+
+	/**
+	 * Result for an unreachable robots.txt: everything is disallowed, unless
+	 * it has been unreachable for longer than maxUnreachableAge.
+	 */
+	private unreachable(
+		context: FetchContext,
+		reason: RobotsFetchReason,
+		options: RobotsFetchOptions,
+		error?: unknown,
+	): RobotsFetchResult {
+		const now = this.now();
+		const unreachableSince = options.unreachableSince ?? now;
+		const failure = error !== undefined ? { error } : {};
+
+		if (now - unreachableSince >= this.maxUnreachableAge) {
+			return {
+				...this.unavailable(context, "unreachable-too-long", unreachableSince),
+				...failure,
+			};
+		}
+		return {
+			...this.metadata(context),
+			robots: ParsedRobots.parse(
+				"User-agent: *\nDisallow: /\n",
+				this.parseOptions,
+			),
+			outcome: "unreachable",
+			reason,
+			bodySize: 0,
+			isTruncated: false,
+			unreachableSince,
+			...failure,
+		};
+	}
+}
@@ -0,0 +1,194 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { K_MAX_LINE_LEN } from "./constants.js";
+import {
+	parseRobotsTxtSyntaxTree,
+	type RobotsSyntaxLine,
+	type RobotsSyntaxTree,
+} from "./syntax-tree.js";
+import { RobotsTagName, type ParseOptions } from "./types.js";
+
+/**
+ * Options for formatRobotsTxt(). The parse options decide how lines are
+ * recognized, e.g. whether 'disalow' is a Disallow; maxBodySize is ignored
+ * and the whole file is formatted.
+ */
+export interface RobotsFormatOptions extends ParseOptions {
+	/** Line ending of the output. Default: '\n'. */
+	lineEnding?: "\n" | "\r\n";
+	/**
+	 * Sort each run of consecutive Allow/Disallow lines by pattern, Allow
+	 * first for equal patterns. This changes nothing for strategies where the
+	 * longest match decides, but changes results for first-match strategies
+	 * such as 'original-1994'. Default: false.
+	 */
+	sortRules?: boolean;
+}
+
+/** Canonical spelling of the keys the parser recognizes. */
+const CANONICAL_KEYS: ReadonlyMap<RobotsTagName, string> = new Map([
+	[RobotsTagName.UserAgent, "User-agent"],
+	[RobotsTagName.Allow, "Allow"],
+	[RobotsTagName.Disallow, "Disallow"],
+	[RobotsTagName.Sitemap, "Sitemap"],
+]);
+
+/**
+ * An output line, with what sorting and grouping need to know about it.
+ */
+interface FormattedLine {
+	text: string;
+	tagName: RobotsTagName;
+	/** The value, for sorting rules */
+	value: string;
+	isComment: boolean;
+}
+
+/**
+ * Format a line of the syntax tree, or return null for a blank line.
+ */
+function formatLine(
+	line: RobotsSyntaxLine,
+	keptLength: number,
+): FormattedLine | null {
+	const { key, value, comment, tagName } = line;
+	const trimmed = line.raw.trim();
+	if (trimmed.length === 0) return null;
+
+	const formatted: FormattedLine = {
+		text: trimmed,
+		tagName,
+		value: value?.text ?? "",
+		isComment: line.metadata.isComment,
+	};
+
+	if (line.metadata.isComment) {
+		formatted.text = comment!.text.trimEnd();
+	} else if (
+		line.metadata.hasDirective &&
+		!line.metadata.isLineTooLong &&
+		key &&
+		value
+	) {
+		const name = CANONICAL_KEYS.get(tagName) ?? key.text;
+		let text = value.text.length > 0 ? `${name}: ${value.text}` : `${name}:`;
+		if (comment) {
+			text += ` ${comment.text.trimEnd()}`;
+		}
+		// The parser only reads the start of overlong lines, so a line must not
+		// become longer than that
+		if (text.length <= keptLength) {
+			formatted.text = text;
+		}
+	} else if (line.metadata.isLineTooLong) {
+		// Leading whitespace counts towards the line length limit
+		formatted.text = line.raw;
+	}
+
+	return formatted;
+}
+
+function isRule(line: FormattedLine): boolean {
+	return (
+		line.tagName === RobotsTagName.Allow ||
+		line.tagName === RobotsTagName.Disallow
+	);
+}
+
+/**
+ * Sort runs of consecutive rules in place.
+ */
+function sortRules(lines: FormattedLine[]): void {
+	let runStart = 0;
+	for (let i = 0; i <= lines.length; i++) {
+		if (i < lines.length && isRule(lines[i])) continue;
+		if (i - runStart > 1) {
+			const run = lines.slice(runStart, i).sort((a, b) => {
+				if (a.value !== b.value) return a.value < b.value ? -1 : 1;
+				if (a.tagName === b.tagName) return 0;
+				return a.tagName === RobotsTagName.Allow ? -1 : 1;
+			});
+			lines.splice(runStart, run.length, ...run);
+		}
+		runStart = i + 1;
+	}
+}
+
+/**
+ * Write a robots.txt in canonical form: recognized keys in their canonical
+ * spelling ('Disallow' for 'disalow'), 'key: value' spacing, one blank line
+ * before each user-agent group (and the comments right above it), no other
+ * blank lines, comments preserved and uniform line endings.
+ *
+ * The output is parsed into the same groups and rules as the input, so it
+ * matches the same URLs for every user-agent. Lines the parser ignores are
+ * kept, trimmed; overlong lines are kept as they are.
+ *
+ * @param robotsTxt - The robots.txt content, or its syntax tree (of text
+ * input, as the output is text)
+ * @param options - Formatting and parse options
+ * @returns The formatted robots.txt, ending with a line ending unless empty
+ */
+export function formatRobotsTxt(
+	robotsTxt: string | RobotsSyntaxTree,
+	options: RobotsFormatOptions = {},
+): string {
+	const tree =
+		typeof robotsTxt === "string"
+			? parseRobotsTxtSyntaxTree(robotsTxt, {
+					...options,
+					maxBodySize: undefined,
+				})
+			: robotsTxt;
+	if (tree.isBinary) {
+		throw new Error("formatRobotsTxt() needs a syntax tree of text input");
+	}
+	const keptLength = (options.maxLineLength ?? K_MAX_LINE_LEN) - 1;
+
+	const lines: FormattedLine[] = [];
+	for (const line of tree.lines) {
+		const formatted = formatLine(line, keptLength);
+		if (formatted) lines.push(formatted);
+	}
+	if (options.sortRules) {
+		sortRules(lines);
+	}
+
+	// Like the parser, a user-agent line after a rule starts a new group
+	const output: string[] = [];
+	let commentsStart = -1;
+	let seenRule = true;
+	for (const line of lines) {
+		if (line.tagName === RobotsTagName.UserAgent && seenRule) {
+			const groupStart = commentsStart === -1 ? output.length : commentsStart;
+			if (groupStart > 0) {
+				output.splice(groupStart, 0, "");
+			}
+			seenRule = false;
+		} else if (isRule(line)) {
+			seenRule = true;
+		}
+
+		if (!line.isComment) {
+			commentsStart = -1;
+		} else if (commentsStart === -1) {
+			commentsStart = output.length;
+		}
+		output.push(line.text);
+	}
+
+	const lineEnding = options.lineEnding ?? "\n";
+	return output.map((line) => line + lineEnding).join("");
+}
@@ -0,0 +1,388 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type {
+	CheckOptions,
+	ParsedRobots,
+	UrlCheckResult,
+} from "./parsed-robots.js";
+import { getRobotsOrigin, type RobotsFetchResult } from "./robots-fetcher.js";
+
+/**
+ * What to do with a URL a policy doesn't cover:
+ *
+ * - 'throw': throw an Error
+ * - 'flag': return a disallowed result with isCrossOrigin set
+ */
+export type CrossOriginHandling = "throw" | "flag";
+
+/**
+ * Options for RobotsPolicy and RobotsPolicyRegistry.
+ */
+export interface RobotsPolicyOptions {
+	/** What to do with URLs of other origins. Default: 'throw'. */
+	crossOrigin?: CrossOriginHandling;
+}
+
+/**
+ * The result of checking a URL against a RobotsPolicy.
+ */
+export interface PolicyCheckResult extends UrlCheckResult {
+	/** Origin of the URL, or null if it isn't an http(s) URL */
+	origin: string | null;
+	/**
+	 * Whether the URL is outside the origin of the robots.txt (for a
+	 * registry: no robots.txt is registered for its origin). Such a URL isn't
+	 * checked against any rules and is reported as disallowed.
+	 */
+	isCrossOrigin: boolean;
+}
+
+/**
+ * Get the origin of a URL, resolving a relative URL against a base origin.
+ * Returns null for URLs that aren't http(s) or can't be parsed.
+ */
+function getUrlOrigin(url: string, base?: string): string | null {
+	const parsed = parseUrl(url, base);
+	return parsed && `${parsed.protocol}//${parsed.host}`;
+}
+
+function parseUrl(url: string, base?: string): URL | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url, base);
+	} catch {
+		return null;
+	}
+	if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+		return null;
+	}
+	return parsed;
+}
+
+/**
+ * The URL to pass to ParsedRobots: absolute URLs as they are, so they match
+ * exactly like with ParsedRobots, relative ones resolved against the origin
+ * (ParsedRobots would read 'page' as '/').
+ */
+function getUrlToCheck(url: string, origin: string): string {
+	return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : new URL(url, origin).href;
+}
+
+/**
+ * Result for a URL that isn't checked because it is cross-origin.
+ */
+function crossOriginResult(
+	url: string,
+	origin: string | null,
+): PolicyCheckResult {
+	return {
+		url,
+		allowed: false,
+		matchingLine: 0,
+		matchedPattern: "",
+		matchedRuleType: "none",
+		matchedAgent: "",
+		matchedGroup: -1,
+		everSeenSpecificAgent: false,
+		origin,
+		isCrossOrigin: true,
+	};
+}
+
+/**
+ * A robots.txt bound to the origin it was fetched from. Per RFC 9309
+ * section 2.3, a robots.txt only applies to URLs with the same scheme, host
+ * and port, but ParsedRobots only looks at the path and would happily check
+ * 'https://b.com/x' or 'http://a.com/x' against the rules of https://a.com.
+ * A policy checks the origin first and throws for URLs of other origins, or
+ * reports them as disallowed with crossOrigin: 'flag'.
+ *
+ * Relative URLs ('/page', 'page') are resolved against the origin.
+ *
+ * @example
+ * ```typescript
+ * const policy = new RobotsPolicy("https://example.com", robots);
+ * policy.isAllowed("MyBot", "https://example.com/page"); // checked
+ * policy.isAllowed("MyBot", "http://example.com/page"); // throws
+ * ```
+ */
+export class RobotsPolicy {
+	/** The origin (scheme, host and port) the robots.txt applies to */
+	public readonly origin: string;
+	/** The parsed robots.txt */
+	public readonly robots: ParsedRobots;
+	private readonly crossOrigin: CrossOriginHandling;
+
+	/**
+	 * @param url - The origin or any URL on it, e.g. the robots.txt URL
+	 * @param robots - The parsed robots.txt of the origin
+	 * @param options - Policy options
+	 * @throws Error if the URL is invalid or not http(s)
+	 */
+	constructor(
+		url: string,
+		robots: ParsedRobots,
+		options: RobotsPolicyOptions = {},
+	) {
+		this.origin = getRobotsOrigin(url);
+		this.robots = robots;
+		this.crossOrigin = options.crossOrigin ?? "throw";
+	}
+
+	/**
+	 * Create a policy for the origin a robots.txt was fetched for. The origin
+	 * is that of the robots.txt URL, not of the URL it redirected to.
+	 *
+	 * @param result - The result of RobotsFetcher.fetch()
+	 * @param options - Policy options
+	 */
+	public static fromFetchResult(
+		result: RobotsFetchResult,
+		options: RobotsPolicyOptions = {},
+	): RobotsPolicy {
+		return new RobotsPolicy(result.robotsUrl, result.robots, options);
+	}
+
+	/**
+	 * Whether a URL is on the origin of the policy.
+	 *
+	 * @param url - An absolute URL, or one relative to the origin
+	 */
+	public isSameOrigin(url: string): boolean {
+		return getUrlOrigin(url, this.origin) === this.origin;
+	}
+
+	/**
+	 * Check URLs for one user-agent, or several that are treated as the same
+	 * crawler, like ParsedRobots.checkUrls().
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param urls - The URLs to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
+	 * @returns Results in the same order as the URLs
+	 * @throws Error for a URL of another origin, unless crossOrigin is 'flag'
+	 */
+	public checkUrls(
+		userAgents: string | string[],
+		urls: string[],
+		options: CheckOptions = {},
+	): PolicyCheckResult[] {
+		const origins = urls.map((url) => getUrlOrigin(url, this.origin));
+		const sameOrigin = urls
+			.filter((_url, i) => origins[i] === this.origin)
+			.map((url) => getUrlToCheck(url, this.origin));
+		if (sameOrigin.length < urls.length && this.crossOrigin === "throw") {
+			const index = origins.findIndex((origin) => origin !== this.origin);
+			throw new Error(
+				`URL is not on the origin ${this.origin} of the robots.txt: ${urls[index]}`,
+			);
+		}
+
+		const results = this.robots.checkUrls(userAgents, sameOrigin, options);
+		let next = 0;
+		return urls.map((url, i) =>
+			origins[i] === this.origin
+				? { ...results[next++], url, origin: this.origin, isCrossOrigin: false }
+				: crossOriginResult(url, origins[i]),
+		);
+	}
+
+	/**
+	 * Check a single URL.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param url - The URL to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
+	 * @returns Result with detailed match information
+	 * @throws Error if the URL is of another origin, unless crossOrigin is
+	 *   'flag'
+	 */
+	public checkUrl(
+		userAgents: string | string[],
+		url: string,
+		options: CheckOptions = {},
+	): PolicyCheckResult {
+		return this.checkUrls(userAgents, [url], options)[0];
+	}
+
+	/**
+	 * Whether a URL may be crawled. URLs of other origins are not allowed
+	 * with crossOrigin: 'flag'.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param url - The URL to check (should be %-encoded per RFC3986)
+	 * @throws Error if the URL is of another origin, unless crossOrigin is
+	 *   'flag'
+	 */
+	public isAllowed(userAgents: string | string[], url: string): boolean {
+		return this.checkUrl(userAgents, url).allowed;
+	}
+}
+
+/**
+ * RobotsPolicy instances for many origins, routing each URL to the
+ * robots.txt of its own origin.
+ *
+ * @example
+ * ```typescript
+ * const registry = new RobotsPolicyRegistry({ crossOrigin: "flag" });
+ * registry.set("https://a.com", robotsA);
+ * registry.set("https://b.com", robotsB);
+ * registry.checkUrls("MyBot", ["https://a.com/x", "https://b.com/y"]);
+ * ```
+ */
+export class RobotsPolicyRegistry {
+	private readonly policies = new Map<string, RobotsPolicy>();
+	private readonly options: RobotsPolicyOptions;
+
+	/**
+	 * @param options - Options for the policies, crossOrigin also deciding
+	 *   what to do with URLs of origins that aren't registered
+	 */
+	constructor(options: RobotsPolicyOptions = {}) {
+		this.options = options;
+	}
+
+	/**
+	 * Register the robots.txt of an origin, replacing an earlier one.
+	 *
+	 * @param url - The origin or any URL on it
+	 * @param robots - The parsed robots.txt of the origin
+	 * @returns The policy of the origin
+	 * @throws Error if the URL is invalid or not http(s)
+	 */
+	public set(url: string, robots: ParsedRobots): RobotsPolicy {
+		return this.add(new RobotsPolicy(url, robots, this.options));
+	}
+
+	/**
+	 * Register a policy, replacing an earlier one for its origin.
+	 *
+	 * @param policy - The policy
+	 * @returns The policy
+	 */
+	public add(policy: RobotsPolicy): RobotsPolicy {
+		this.policies.set(policy.origin, policy);
+		return policy;
+	}
+
+	/**
+	 * Get the policy for a URL's origin.
+	 *
+	 * @param url - Any URL
+	 * @returns The policy, or undefined if its origin isn't registered
+	 */
+	public get(url: string): RobotsPolicy | undefined {
+		const origin = getUrlOrigin(url);
+		return origin === null ? undefined : this.policies.get(origin);
+	}
+
+	/**
+	 * Remove the policy of a URL's origin.
+	 *
+	 * @param url - Any URL on the origin
+	 * @returns Whether the origin was registered
+	 */
+	public delete(url: string): boolean {
+		const origin = getUrlOrigin(url);
+		return origin !== null && this.policies.delete(origin);
+	}
+
+	/** Registered origins, in registration order */
+	public origins(): string[] {
+		return [...this.policies.keys()];
+	}
+
+	/** Number of registered origins */
+	public get size(): number {
+		return this.policies.size;
+	}
+
+	/**
+	 * Check URLs of any registered origins, each against the robots.txt of
+	 * its own origin.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param urls - Absolute URLs to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
+	 * @returns Results in the same order as the URLs
+	 * @throws Error for a URL of an origin that isn't registered, unless
+	 *   crossOrigin is 'flag'
+	 */
+	public checkUrls(
+		userAgents: string | string[],
+		urls: string[],
+		options: CheckOptions = {},
+	): PolicyCheckResult[] {
+		// Check the URLs of each origin together, as ParsedRobots selects the
+		// rules for the user-agents once per call
+		const byOrigin = new Map<RobotsPolicy, number[]>();
+		const results = new Array<PolicyCheckResult>(urls.length);
+		urls.forEach((url, i) => {
+			const policy = this.get(url);
+			if (policy) {
+				const indexes = byOrigin.get(policy);
+				if (indexes) indexes.push(i);
+				else byOrigin.set(policy, [i]);
+			} else if (this.options.crossOrigin === "flag") {
+				results[i] = crossOriginResult(url, getUrlOrigin(url));
+			} else {
+				throw new Error(`No robots.txt registered for the URL: ${url}`);
+			}
+		});
+
+		for (const [policy, indexes] of byOrigin) {
+			const checked = policy.checkUrls(
+				userAgents,
+				indexes.map((i) => urls[i]),
+				options,
+			);
+			indexes.forEach((i, j) => {
+				results[i] = checked[j];
+			});
+		}
+		return results;
+	}
+
+	/**
+	 * Check a single URL against the robots.txt of its origin.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param url - The absolute URL to check (should be %-encoded per RFC3986)
+	 * @param options - Check options, e.g. to ignore the '*' rules
+	 * @returns Result with detailed match information
+	 * @throws Error if the URL's origin isn't registered, unless crossOrigin
+	 *   is 'flag'
+	 */
+	public checkUrl(
+		userAgents: string | string[],
+		url: string,
+		options: CheckOptions = {},
+	): PolicyCheckResult {
+		return this.checkUrls(userAgents, [url], options)[0];
+	}
+
+	/**
+	 * Whether a URL may be crawled according to the robots.txt of its origin.
+	 *
+	 * @param userAgents - The user-agent(s) to check
+	 * @param url - The absolute URL to check (should be %-encoded per RFC3986)
+	 * @throws Error if the URL's origin isn't registered, unless crossOrigin
+	 *   is 'flag'
+	 */
+	public isAllowed(userAgents: string | string[], url: string): boolean {
+		return this.checkUrl(userAgents, url).allowed;
+	}
+}
@@ -0,0 +1,95 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import type { CompiledPattern } from "./pattern-matcher.js";
+
+/**
+ * A node of the prefix trie, holding the positions of the patterns whose
+ * literal prefix ends here.
+ */
+interface TrieNode {
+	children: Map<string, TrieNode> | null;
+	positions: number[];
+}
+
+function ascending(a: number, b: number): number {
+	return a - b;
+}
+
+/**
+ * Index of a list of compiled patterns, keyed on their literal prefix (the
+ * part before the first '*'). A pattern can only match a path starting with
+ * its literal prefix, so walking the trie along the path finds every pattern
+ * that may match without looking at the others.
+ *
+ * Candidates are returned as positions in the original list, in ascending
+ * order, so callers see rules in file order like with a full scan.
+ */
+export class RuleIndex {
+	private readonly root: TrieNode = { children: null, positions: [] };
+	private readonly candidates: number[] = [];
+
+	/**
+	 * @param patterns - The compiled patterns to index, in file order
+	 */
+	constructor(patterns: CompiledPattern[]) {
+		patterns.forEach((pattern, position) => {
+			// Walk per UTF-16 code unit, like lookup() walks the path
+			const prefix = pattern.literalPrefix;
+			let node = this.root;
+			for (let i = 0; i < prefix.length; i++) {
+				const ch = prefix[i];
+				if (!node.children) node.children = new Map();
+				let child = node.children.get(ch);
+				if (!child) {
+					child = { children: null, positions: [] };
+					node.children.set(ch, child);
+				}
+				node = child;
+			}
+			node.positions.push(position);
+		});
+	}
+
+	/**
+	 * Get the positions of the patterns whose literal prefix is a prefix of
+	 * the path. The returned array is reused by the next call.
+	 *
+	 * @param path - The URL path to look up
+	 * @returns Candidate positions in ascending order
+	 */
+	public lookup(path: string): readonly number[] {
+		const candidates = this.candidates;
+		candidates.length = 0;
+
+		let node: TrieNode | undefined = this.root;
+		let nodesWithPositions = 0;
+		for (let i = 0; node; i++) {
+			if (node.positions.length > 0) {
+				for (const position of node.positions) {
+					candidates.push(position);
+				}
+				nodesWithPositions++;
+			}
+			if (i === path.length || !node.children) break;
+			node = node.children.get(path[i]);
+		}
+
+		// Positions are sorted per node; merge nodes back into file order
+		if (nodesWithPositions > 1) {
+			candidates.sort(ascending);
+		}
+		return candidates;
+	}
+}
@@ -0,0 +1,347 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { K_SNAPSHOT_VERSION } from "./constants.js";
+import type { MatchStrategyName } from "./match-strategy.js";
+import type {
+	CrawlDelaySnapshot,
+	ParsedRobotsSnapshot,
+} from "./parsed-robots.js";
+
+/**
+ * Binary encoding of ParsedRobots snapshots.
+ *
+ * The layout follows ParsedRobotsSnapshot field by field, after a 4-byte
+ * magic and the version. Integers are unsigned LEB128 varints, strings are
+ * UTF-8 prefixed by their byte length, lists are prefixed by their length
+ * and crawl-delay seconds are float64.
+ */
+
+const MAGIC = [0x52, 0x42, 0x54, 0x53]; // "RBTS"
+
+// Position + 1 is stored for the strategy, 0 for a custom one
+const STRATEGY_NAMES: readonly MatchStrategyName[] = [
+	"longest-match",
+	"original-1994",
+	"yandex",
+	"disallow-wins-ties",
+];
+
+const RULE_ALLOW = 1;
+const RULE_DERIVED = 2;
+
+class SnapshotWriter {
+	private bytes = new Uint8Array(1024);
+	private view = new DataView(this.bytes.buffer);
+	private length = 0;
+	private readonly encoder = new TextEncoder();
+
+	public writeByte(value: number): void {
+		this.reserve(1);
+		this.bytes[this.length++] = value;
+	}
+
+	public writeUint(value: number): void {
+		if (!Number.isSafeInteger(value) || value < 0) {
+			throw new Error(`Cannot encode ${value} in a ParsedRobots snapshot`);
+		}
+		// Division instead of bit shifts keeps values above 2^32 intact
+		while (value >= 0x80) {
+			this.writeByte((value % 0x80) | 0x80);
+			value = Math.floor(value / 0x80);
+		}
+		this.writeByte(value);
+	}
+
+	public writeFloat(value: number): void {
+		this.reserve(8);
+		this.view.setFloat64(this.length, value);
+		this.length += 8;
+	}
+
+	public writeString(value: string): void {
+		const encoded = this.encoder.encode(value);
+		this.writeUint(encoded.length);
+		this.reserve(encoded.length);
+		this.bytes.set(encoded, this.length);
+		this.length += encoded.length;
+	}
+
+	public writeUints(values: number[]): void {
+		this.writeUint(values.length);
+		for (const value of values) {
+			this.writeUint(value);
+		}
+	}
+
+	public finish(): Uint8Array {
+		return this.bytes.slice(0, this.length);
+	}
+
+	private reserve(count: number): void {
+		if (this.length + count <= this.bytes.length) return;
+		let size = this.bytes.length * 2;
+		while (size < this.length + count) size *= 2;
+		const bytes = new Uint8Array(size);
+		bytes.set(this.bytes.subarray(0, this.length));
+		this.bytes = bytes;
+		this.view = new DataView(bytes.buffer);
+	}
+}
+
+class SnapshotReader {
+	private readonly view: DataView;
+	private readonly decoder = new TextDecoder("utf-8", { fatal: true });
+	private offset = 0;
+
+	constructor(private readonly bytes: Uint8Array) {
+		this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	}
+
+	public readByte(): number {
+		this.need(1);
+		return this.bytes[this.offset++];
+	}
+
+	public readUint(): number {
+		let value = 0;
+		let scale = 1;
+		for (;;) {
+			const byte = this.readByte();
+			value += (byte & 0x7f) * scale;
+			if (byte < 0x80) break;
+			scale *= 0x80;
+			if (scale > Number.MAX_SAFE_INTEGER) {
+				throw new Error("Invalid ParsedRobots snapshot: integer too large");
+			}
+		}
+		return value;
+	}
+
+	public readFloat(): number {
+		this.need(8);
+		const value = this.view.getFloat64(this.offset);
+		this.offset += 8;
+		return value;
+	}
+
+	public readString(): string {
+		const length = this.readUint();
+		this.need(length);
+		const value = this.decoder.decode(
+			this.bytes.subarray(this.offset, this.offset + length),
+		);
+		this.offset += length;
+		return value;
+	}
+
+	public readUints(): number[] {
+		return this.readList(() => this.readUint());
+	}
+
+	public readList<T>(readItem: () => T): T[] {
+		const count = this.readUint();
+		// Every item takes at least a byte, so a larger count is corrupt
+		this.need(count);
+		const items: T[] = [];
+		for (let i = 0; i < count; i++) {
+			items.push(readItem());
+		}
+		return items;
+	}
+
+	public expectEnd(): void {
+		if (this.offset !== this.bytes.length) {
+			throw new Error("Invalid ParsedRobots snapshot: trailing data");
+		}
+	}
+
+	private need(count: number): void {
+		if (this.offset + count > this.bytes.length) {
+			throw new Error("Invalid ParsedRobots snapshot: unexpected end of data");
+		}
+	}
+}
+
+function writeCrawlDelay(
+	writer: SnapshotWriter,
+	entry: CrawlDelaySnapshot,
+): void {
+	writer.writeUint(entry.lineNumber);
+	writer.writeString(entry.rawValue);
+	if (entry.seconds === null) {
+		writer.writeByte(0);
+	} else {
+		writer.writeByte(1);
+		writer.writeFloat(entry.seconds);
+	}
+}
+
+function readCrawlDelay(reader: SnapshotReader): CrawlDelaySnapshot {
+	return {
+		lineNumber: reader.readUint(),
+		rawValue: reader.readString(),
+		seconds: reader.readByte() === 0 ? null : reader.readFloat(),
+	};
+}
+
+/**
+ * Encode a snapshot made by ParsedRobots.toJSON().
+ */
+export function encodeSnapshot(snapshot: ParsedRobotsSnapshot): Uint8Array {
+	const writer = new SnapshotWriter();
+	for (const byte of MAGIC) {
+		writer.writeByte(byte);
+	}
+	writer.writeUint(snapshot.version);
+	writer.writeUint(
+		snapshot.matchStrategy === null
+			? 0
+			: STRATEGY_NAMES.indexOf(snapshot.matchStrategy) + 1,
+	);
+
+	writer.writeUint(snapshot.rules.length);
+	for (const rule of snapshot.rules) {
+		writer.writeString(rule.pattern);
+		writer.writeUint(rule.lineNumber);
+		writer.writeByte(
+			(rule.isAllow ? RULE_ALLOW : 0) | (rule.isDerived ? RULE_DERIVED : 0),
+		);
+	}
+	writer.writeUints(snapshot.globalRules);
+
+	writer.writeUint(snapshot.agentRules.length);
+	for (const [agent, rules] of snapshot.agentRules) {
+		writer.writeString(agent);
+		writer.writeUints(rules);
+	}
+
+	writer.writeUint(snapshot.explicitAgents.length);
+	for (const agent of snapshot.explicitAgents) {
+		writer.writeString(agent);
+	}
+
+	if (snapshot.globalCrawlDelay === null) {
+		writer.writeByte(0);
+	} else {
+		writer.writeByte(1);
+		writeCrawlDelay(writer, snapshot.globalCrawlDelay);
+	}
+	writer.writeUint(snapshot.agentCrawlDelays.length);
+	for (const [agent, entry] of snapshot.agentCrawlDelays) {
+		writer.writeString(agent);
+		writeCrawlDelay(writer, entry);
+	}
+
+	writer.writeUint(snapshot.sitemaps.length);
+	for (const sitemap of snapshot.sitemaps) {
+		writer.writeUint(sitemap.lineNumber);
+		writer.writeString(sitemap.value);
+	}
+
+	writer.writeUint(snapshot.groups.length);
+	for (const group of snapshot.groups) {
+		writer.writeUint(group.userAgents.length);
+		for (const userAgent of group.userAgents) {
+			writer.writeString(userAgent.value);
+			writer.writeUint(userAgent.lineNumber);
+			writer.writeString(userAgent.agent);
+		}
+		writer.writeUint(group.startLine);
+		writer.writeUint(group.endLine);
+		writer.writeUints(group.rules);
+		writer.writeByte(group.isGlobal ? 1 : 0);
+		writer.writeUints(group.mergedWith);
+	}
+
+	return writer.finish();
+}
+
+/**
+ * Decode a snapshot encoded by encodeSnapshot().
+ */
+export function decodeSnapshot(bytes: Uint8Array): ParsedRobotsSnapshot {
+	const reader = new SnapshotReader(bytes);
+	for (const byte of MAGIC) {
+		if (reader.readByte() !== byte) {
+			throw new Error("Invalid ParsedRobots snapshot: bad magic");
+		}
+	}
+
+	// The layout depends on the version, so check it before reading on
+	const version = reader.readUint();
+	if (version !== K_SNAPSHOT_VERSION) {
+		throw new Error(`Unsupported ParsedRobots snapshot version: ${version}`);
+	}
+	const strategy = reader.readUint();
+	if (strategy > STRATEGY_NAMES.length) {
+		throw new Error(
+			`Invalid ParsedRobots snapshot: unknown strategy ${strategy}`,
+		);
+	}
+
+	const rules = reader.readList(() => {
+		const pattern = reader.readString();
+		const lineNumber = reader.readUint();
+		const flags = reader.readByte();
+		return {
+			pattern,
+			lineNumber,
+			isAllow: (flags & RULE_ALLOW) !== 0,
+			isDerived: (flags & RULE_DERIVED) !== 0,
+		};
+	});
+	const globalRules = reader.readUints();
+	const agentRules = reader.readList((): [string, number[]] => [
+		reader.readString(),
+		reader.readUints(),
+	]);
+	const explicitAgents = reader.readList(() => reader.readString());
+	const globalCrawlDelay =
+		reader.readByte() === 0 ? null : readCrawlDelay(reader);
+	const agentCrawlDelays = reader.readList((): [string, CrawlDelaySnapshot] => [
+		reader.readString(),
+		readCrawlDelay(reader),
+	]);
+	const sitemaps = reader.readList(() => ({
+		lineNumber: reader.readUint(),
+		value: reader.readString(),
+	}));
+	const groups = reader.readList(() => ({
+		userAgents: reader.readList(() => ({
+			value: reader.readString(),
+			lineNumber: reader.readUint(),
+			agent: reader.readString(),
+		})),
+		startLine: reader.readUint(),
+		endLine: reader.readUint(),
+		rules: reader.readUints(),
+		isGlobal: reader.readByte() !== 0,
+		mergedWith: reader.readUints(),
+	}));
+	reader.expectEnd();
+
+	return {
+		version,
+		matchStrategy: strategy === 0 ? null : STRATEGY_NAMES[strategy - 1],
+		rules,
+		globalRules,
+		agentRules,
+		explicitAgents,
+		globalCrawlDelay,
+		agentCrawlDelays,
+		sitemaps,
+		groups,
+	};
+}
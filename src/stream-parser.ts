@@ -0,0 +1,148 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { RobotsTxtParser } from "./parser.js";
+import type { ParseOptions, RobotsBody, RobotsParseHandler } from "./types.js";
+
+/**
+ * Push-based robots.txt parser. Chunks are parsed as they arrive and the
+ * handler receives the same callbacks, in the same order, as it would from
+ * parseRobotsTxt() on the concatenated body.
+ */
+export interface RobotsStreamParser {
+	/**
+	 * Parse the next chunk of the body. All chunks must be either strings or
+	 * bytes (Uint8Array/ArrayBuffer); mixing them throws.
+	 */
+	write(chunk: RobotsBody): void;
+
+	/**
+	 * Signal the end of the body. Emits the final line and handleRobotsEnd().
+	 * Can be called early, e.g. once a download size cap is reached.
+	 */
+	end(): void;
+
+	/**
+	 * Returns true once the input exceeded ParseOptions.maxBodySize. Further
+	 * chunks are ignored, so the caller can stop reading the body.
+	 */
+	isTruncated(): boolean;
+}
+
+/**
+ * Creates a streaming robots.txt parser. handleRobotsStart() is called
+ * immediately; the remaining callbacks are emitted as complete lines arrive.
+ *
+ * CR/LF pairs split across chunks and a BOM at the start of the first chunk(s)
+ * are handled exactly like parseRobotsTxt() does.
+ *
+ * @example
+ * ```typescript
+ * const parser = createRobotsStreamParser(handler);
+ * parser.write("User-agent: *\r");
+ * parser.write("\nDisallow: /private/\n");
+ * parser.end();
+ * ```
+ *
+ * @param handler - The handler to receive parse callbacks
+ * @param options - Parse options; defaults to handler.getParseOptions()
+ * @returns A parser accepting chunks through write() until end()
+ */
+export function createRobotsStreamParser(
+	handler: RobotsParseHandler,
+	options: ParseOptions = handler.getParseOptions(),
+): RobotsStreamParser {
+	const parser = new RobotsTxtParser(handler, options);
+	let ended = false;
+	parser.start();
+
+	return {
+		write(chunk: RobotsBody): void {
+			if (ended) {
+				throw new Error("write() called after end()");
+			}
+			parser.write(chunk);
+		},
+		end(): void {
+			if (ended) return;
+			ended = true;
+			parser.end();
+		},
+		isTruncated(): boolean {
+			return parser.isTruncated();
+		},
+	};
+}
+
+/**
+ * Creates a pass-through WHATWG TransformStream that parses the robots.txt
+ * body flowing through it. Chunks are forwarded unchanged, so the stream can
+ * be placed in the middle of an existing pipeline.
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch("https://example.com/robots.txt");
+ * await response.body!
+ *   .pipeThrough(createRobotsTransformStream(handler))
+ *   .pipeTo(new WritableStream());
+ * ```
+ *
+ * @param handler - The handler to receive parse callbacks
+ * @param options - Parse options; defaults to handler.getParseOptions()
+ */
+export function createRobotsTransformStream<T extends RobotsBody>(
+	handler: RobotsParseHandler,
+	options: ParseOptions = handler.getParseOptions(),
+): TransformStream<T, T> {
+	let parser: RobotsStreamParser | null = null;
+
+	return new TransformStream<T, T>({
+		start() {
+			parser = createRobotsStreamParser(handler, options);
+		},
+		transform(chunk, controller) {
+			parser!.write(chunk);
+			controller.enqueue(chunk);
+		},
+		flush() {
+			parser!.end();
+		},
+	});
+}
+
+/**
+ * Parses a robots.txt body from an async iterable of chunks, such as a Node.js
+ * Readable stream (e.g. fs.createReadStream() or an HTTP response) or a WHATWG
+ * ReadableStream in runtimes that support async iteration over it.
+ *
+ * Reading stops as soon as the maximum body size is exceeded, which also
+ * closes the source stream.
+ *
+ * @param source - Async iterable of string or byte chunks
+ * @param handler - The handler to receive parse callbacks
+ * @param options - Parse options; defaults to handler.getParseOptions()
+ * @returns A promise that resolves once handleRobotsEnd() has been called
+ */
+export async function parseRobotsTxtStream(
+	source: AsyncIterable<RobotsBody>,
+	handler: RobotsParseHandler,
+	options: ParseOptions = handler.getParseOptions(),
+): Promise<void> {
+	const parser = createRobotsStreamParser(handler, options);
+	for await (const chunk of source) {
+		parser.write(chunk);
+		if (parser.isTruncated()) break;
+	}
+	parser.end();
+}
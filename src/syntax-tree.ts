@@ -0,0 +1,306 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { K_MAX_LINE_LEN, UTF8_BOM } from "./constants.js";
+import {
+	binaryStringToBytes,
+	bytesToBinaryString,
+	parseRobotsTxt,
+	trimAsciiWhitespace,
+	utf8Length,
+} from "./parser.js";
+import { RobotsParsingReporter } from "./reporter.js";
+import {
+	RobotsTagName,
+	createLineMetadata,
+	type LineMetadata,
+	type ParseOptions,
+	type RobotsBody,
+} from "./types.js";
+
+/**
+ * A range of the source. Offsets are from the start of the source, end
+ * exclusive: UTF-16 code units for string input, bytes for byte input.
+ */
+export interface SourceSpan {
+	start: number;
+	end: number;
+	/** The source of the range (a binary string for byte input) */
+	text: string;
+}
+
+/**
+ * The line ending of a line; empty for the last line of the source.
+ */
+export type LineEnding = "\n" | "\r\n" | "\r" | "";
+
+/**
+ * A line of a robots.txt in the syntax tree.
+ */
+export interface RobotsSyntaxLine {
+	/** Line number, as reported to parse handlers */
+	lineNum: number;
+	/** The line as written, without its line ending */
+	raw: string;
+	/** Offset of the first character of the line */
+	start: number;
+	lineEnding: LineEnding;
+	/** How the parser classified the line */
+	tagName: RobotsTagName;
+	/** The metadata the parser reported for the line */
+	metadata: LineMetadata;
+	/** The key, e.g. 'Disallow' or 'disalow' (null if the line has none) */
+	key: SourceSpan | null;
+	/**
+	 * Everything between the key and the value: the colon with the whitespace
+	 * around it, or the whitespace standing in for a missing colon.
+	 */
+	separator: SourceSpan | null;
+	/** The value, without surrounding whitespace; may be empty */
+	value: SourceSpan | null;
+	/** The comment, from '#' to the end of the line */
+	comment: SourceSpan | null;
+}
+
+/**
+ * Lossless syntax tree of a robots.txt: the byte order mark skipped by the
+ * parser followed by every line. printRobotsTxtSyntaxTree() turns it back
+ * into the source.
+ *
+ * For byte input, like in the parser, all texts (raw lines, spans and the
+ * byte order mark) are binary strings holding one char (0-255) per byte, so
+ * that invalid UTF-8 is kept as it is.
+ */
+export interface RobotsSyntaxTree {
+	/** Whether the source was bytes (Uint8Array or ArrayBuffer) */
+	isBinary: boolean;
+	/** The (possibly partial) byte order mark, empty if none */
+	bom: string;
+	lines: RobotsSyntaxLine[];
+}
+
+/**
+ * Spans of the parts of a line, relative to the start of the line.
+ */
+interface LineParts {
+	key: [number, number] | null;
+	separator: [number, number] | null;
+	value: [number, number] | null;
+	comment: [number, number] | null;
+}
+
+/**
+ * Find the parts of a line the way RobotsTxtParser splits it into key and
+ * value. Binary lines are trimmed of ASCII whitespace only, like in the
+ * parser.
+ */
+function splitLine(
+	line: string,
+	allowWhitespaceSeparator: boolean,
+	isBinary: boolean,
+): LineParts {
+	const trim = isBinary ? trimAsciiWhitespace : (str: string) => str.trim();
+	const parts: LineParts = {
+		key: null,
+		separator: null,
+		value: null,
+		comment: null,
+	};
+
+	let contentEnd = line.length;
+	const commentPos = line.indexOf("#");
+	if (commentPos !== -1) {
+		parts.comment = [commentPos, line.length];
+		contentEnd = commentPos;
+	}
+
+	const content = line.slice(0, contentEnd);
+	const trimmed = trim(content);
+	if (trimmed.length === 0) return parts;
+	// The first occurrence, as everything before it is whitespace
+	const start = content.indexOf(trimmed);
+	const end = start + trimmed.length;
+
+	const sepPos = trimmed.indexOf(":");
+	if (sepPos === -1) {
+		if (!allowWhitespaceSeparator) return parts;
+		// Whitespace stands in for the colon if it separates exactly two words
+		const gap = /[ \t]+/.exec(trimmed);
+		if (!gap || trimmed.split(/[ \t]+/).length !== 2) return parts;
+		const gapEnd = gap.index + gap[0].length;
+		parts.key = [start, start + gap.index];
+		parts.separator = [start + gap.index, start + gapEnd];
+		parts.value = [start + gapEnd, end];
+		return parts;
+	}
+
+	// The key only has whitespace at its end, the value only at its start
+	const rawKey = trimmed.slice(0, sepPos);
+	const keyEnd = trim(rawKey).length;
+	if (keyEnd === 0) return parts;
+	const rawValue = trimmed.slice(sepPos + 1);
+	const valueStart = sepPos + 1 + (rawValue.length - trim(rawValue).length);
+
+	parts.key = [start, start + keyEnd];
+	parts.separator = [start + keyEnd, start + valueStart];
+	parts.value = [start + valueStart, end];
+	return parts;
+}
+
+/**
+ * Parse a robots.txt into a lossless syntax tree, e.g. for editor tooling.
+ * Every line keeps its raw text, line ending and the spans of its key,
+ * separator, value and comment, next to the tag and metadata the parser
+ * reports for it.
+ *
+ * Lines are split and classified exactly like parseRobotsTxt() does with the
+ * same body and options. Spans only cover the part of an overlong line the
+ * parser reads; lines after the maximum body size have no spans and
+ * isTruncated set.
+ *
+ * @param robotsBody - The robots.txt content (text or raw bytes)
+ * @param options - Parse options, e.g. to recognize custom directives
+ * @returns The syntax tree
+ */
+export function parseRobotsTxtSyntaxTree(
+	robotsBody: string,
+	options?: ParseOptions,
+): RobotsSyntaxTree & { isBinary: false };
+export function parseRobotsTxtSyntaxTree(
+	robotsBody: Uint8Array | ArrayBuffer,
+	options?: ParseOptions,
+): RobotsSyntaxTree & { isBinary: true };
+export function parseRobotsTxtSyntaxTree(
+	robotsBody: RobotsBody,
+	options?: ParseOptions,
+): RobotsSyntaxTree;
+export function parseRobotsTxtSyntaxTree(
+	robotsBody: RobotsBody,
+	options: ParseOptions = {},
+): RobotsSyntaxTree {
+	const body =
+		robotsBody instanceof ArrayBuffer ? new Uint8Array(robotsBody) : robotsBody;
+	const reporter = new RobotsParsingReporter(options);
+	parseRobotsTxt(body, reporter, options);
+	const isBinary = typeof body !== "string";
+	// Offsets count bytes for byte input, like in the parser
+	const robotsTxt = isBinary ? bytesToBinaryString(body) : body;
+	const results = new Map(
+		reporter.parseResults().map((result) => [result.lineNum, result]),
+	);
+
+	const allowWhitespaceSeparator = options.allowWhitespaceSeparator ?? true;
+	const keptLength = (options.maxLineLength ?? K_MAX_LINE_LEN) - 1;
+	const truncatedAt = reporter.truncatedAtLine();
+
+	// Skip the byte order mark like the parser does
+	let bomLength = 0;
+	if (options.skipBom ?? true) {
+		const maxBodySize = options.maxBodySize ?? Infinity;
+		let bomSize = 0;
+		while (
+			bomLength < UTF8_BOM.length &&
+			robotsTxt.charCodeAt(bomLength) === UTF8_BOM[bomLength]
+		) {
+			bomSize += isBinary ? 1 : utf8Length(UTF8_BOM[bomLength]);
+			if (bomSize > maxBodySize) break;
+			bomLength++;
+		}
+	}
+
+	const lines: RobotsSyntaxLine[] = [];
+	let start = bomLength;
+	for (;;) {
+		let end = start;
+		while (
+			end < robotsTxt.length &&
+			robotsTxt[end] !== "\n" &&
+			robotsTxt[end] !== "\r"
+		) {
+			end++;
+		}
+
+		let lineEnding: LineEnding = "";
+		if (robotsTxt[end] === "\r") {
+			lineEnding = robotsTxt[end + 1] === "\n" ? "\r\n" : "\r";
+		} else if (robotsTxt[end] === "\n") {
+			lineEnding = "\n";
+		}
+
+		const lineNum = lines.length + 1;
+		const raw = robotsTxt.slice(start, end);
+		const result = results.get(lineNum);
+		const isTruncated = truncatedAt > 0 && lineNum >= truncatedAt;
+
+		const span = (range: [number, number] | null): SourceSpan | null =>
+			range && {
+				start: start + range[0],
+				end: start + range[1],
+				text: raw.slice(range[0], range[1]),
+			};
+		const parts = isTruncated
+			? { key: null, separator: null, value: null, comment: null }
+			: splitLine(raw.slice(0, keptLength), allowWhitespaceSeparator, isBinary);
+
+		let metadata = result ? { ...result.metadata } : createLineMetadata();
+		if (isTruncated) {
+			metadata = { ...createLineMetadata(), isTruncated: true };
+		}
+
+		lines.push({
+			lineNum,
+			raw,
+			start,
+			lineEnding,
+			tagName: result && !isTruncated ? result.tagName : RobotsTagName.Unknown,
+			metadata,
+			key: span(parts.key),
+			separator: span(parts.separator),
+			value: span(parts.value),
+			comment: span(parts.comment),
+		});
+
+		if (lineEnding === "") break;
+		start = end + lineEnding.length;
+	}
+
+	return { isBinary, bom: robotsTxt.slice(0, bomLength), lines };
+}
+
+/**
+ * Turn a syntax tree back into a robots.txt. For a tree from
+ * parseRobotsTxtSyntaxTree() this is exactly the parsed source: text for
+ * string input, the same bytes for byte input.
+ *
+ * @param tree - The syntax tree
+ * @returns The robots.txt text, or bytes if tree.isBinary
+ */
+export function printRobotsTxtSyntaxTree(
+	tree: RobotsSyntaxTree & { isBinary: false },
+): string;
+export function printRobotsTxtSyntaxTree(
+	tree: RobotsSyntaxTree & { isBinary: true },
+): Uint8Array;
+export function printRobotsTxtSyntaxTree(
+	tree: RobotsSyntaxTree,
+): string | Uint8Array;
+export function printRobotsTxtSyntaxTree(
+	tree: RobotsSyntaxTree,
+): string | Uint8Array {
+	let text = tree.bom;
+	for (const line of tree.lines) {
+		text += line.raw + line.lineEnding;
+	}
+	return tree.isBinary ? binaryStringToBytes(text) : text;
+}
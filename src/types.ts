@@ -12,6 +12,74 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import type { DirectiveRegistry } from "./directive-registry.js";
+import type {
+	MatchStrategyName,
+	RobotsMatchStrategy,
+} from "./match-strategy.js";
+
+/**
+ * A robots.txt body as accepted by the parser. Strings are processed per
+ * UTF-16 code unit; Uint8Array and ArrayBuffer bodies are processed per byte,
+ * exactly like the C++ implementation.
+ */
+export type RobotsBody = string | Uint8Array | ArrayBuffer;
+
+/**
+ * Options controlling how a robots.txt body is parsed. The defaults match
+ * Google's parser; turning the leniencies off gives RFC 9309-only parsing.
+ */
+export interface ParseOptions {
+	/**
+	 * Accept frequent typos of directive names, such as "disalow" or
+	 * "useragent". Default: K_ALLOW_FREQUENT_TYPOS (true).
+	 */
+	allowFrequentTypos?: boolean;
+	/**
+	 * Accept whitespace in place of a missing colon separator, e.g.
+	 * "Disallow /path". Default: true.
+	 */
+	allowWhitespaceSeparator?: boolean;
+	/**
+	 * Additional directives to recognise, e.g. crawl-delay. Lines matching a
+	 * registered directive are passed to RobotsParseHandler.handleDirective()
+	 * instead of handleUnknownAction(). Default: none.
+	 */
+	directives?: DirectiveRegistry;
+	/**
+	 * Only accept keys equal to a known key name or one of its accepted typos,
+	 * instead of any key starting with one (e.g. 'allowance' for 'allow').
+	 * Default: false.
+	 */
+	exactKeyMatch?: boolean;
+	/**
+	 * Skip a (possibly partial) UTF-8 byte order mark at the start of the body.
+	 * Default: true.
+	 */
+	skipBom?: boolean;
+	/**
+	 * Maximum line length, with the same meaning as K_MAX_LINE_LEN: at most
+	 * maxLineLength - 1 bytes (UTF-16 code units for string input) of a line are
+	 * parsed, the rest is dropped and the line is reported as too long.
+	 * Default: K_MAX_LINE_LEN.
+	 */
+	maxLineLength?: number;
+	/**
+	 * Maximum size of the body to parse, in bytes (UTF-8 bytes for string
+	 * input). Parsing stops at the limit; a line cut off by the limit is never
+	 * emitted, and its line number is reported with isTruncated set. A single
+	 * line ending right past the limit is not a cut.
+	 * Use K_MAX_BODY_SIZE for Google's 500 KiB limit. Default: no limit.
+	 */
+	maxBodySize?: number;
+	/**
+	 * Strategy deciding the priority of Allow/Disallow matches, or the name of
+	 * a shipped one (e.g. 'yandex'). Used by RobotsMatcher and ParsedRobots;
+	 * the parser itself ignores it. Default: LongestMatchRobotsMatchStrategy.
+	 */
+	matchStrategy?: RobotsMatchStrategy | MatchStrategyName;
+}
+
 /**
  * Metadata about a parsed line in robots.txt.
  */
@@ -30,6 +98,16 @@ export interface LineMetadata {
 	isLineTooLong: boolean;
 	/** Indicates that the key-value pair is missing the colon separator. */
 	isMissingColonSeparator: boolean;
+	/**
+	 * Indicates that the key only matched a known key by prefix, e.g.
+	 * 'allowance' for 'allow'. With exactKeyMatch the key is unknown instead.
+	 */
+	isPrefixMatch: boolean;
+	/**
+	 * Indicates that the body was cut off at the maximum body size on this
+	 * line. The line and everything after it was not parsed.
+	 */
+	isTruncated: boolean;
 }
 
 /**
@@ -44,6 +122,8 @@ export function createLineMetadata(): LineMetadata {
 		isAcceptableTypo: false,
 		isLineTooLong: false,
 		isMissingColonSeparator: false,
+		isPrefixMatch: false,
+		isTruncated: false,
 	};
 }
 
@@ -55,6 +135,8 @@ export enum KeyType {
 	SITEMAP = 1,
 	ALLOW = 2,
 	DISALLOW = 3,
+	/** Field registered in a DirectiveRegistry. */
+	CUSTOM = 4,
 	/** Unrecognized field; high number to avoid serialization changes. */
 	UNKNOWN = 128,
 }
@@ -77,6 +159,35 @@ export enum RobotsTagName {
 	 * E.g., noindex, noarchive, crawl-delay.
 	 */
 	Unused = 5,
+	/** Identifier for lines matching a directive of a DirectiveRegistry. */
+	Custom = 6,
+}
+
+/**
+ * Where a registered directive applies: to the user-agent group it appears
+ * in (like Allow/Disallow), or to the whole file (like Sitemap).
+ */
+export type DirectiveScope = "group" | "global";
+
+/**
+ * A line whose key matched a directive registered in a DirectiveRegistry.
+ */
+export interface RobotsDirective<T = unknown> {
+	/** Canonical name of the registered directive, e.g. 'crawl-delay'. */
+	name: string;
+	/** The key as written in the robots.txt. */
+	key: string;
+	/** The value as written in the robots.txt (not %-escaped). */
+	rawValue: string;
+	/**
+	 * The value returned by the directive's value parser, or the raw value if
+	 * it has none. Undefined if the parser rejected the value.
+	 */
+	value: T | undefined;
+	/** Where the directive applies. */
+	scope: DirectiveScope;
+	/** Indicates that the key is one of the directive's accepted typos. */
+	isTypo: boolean;
 }
 
 /**
@@ -122,8 +233,24 @@ export abstract class RobotsParseHandler {
 		value: string,
 	): void;
 
+	/**
+	 * Callback for directives registered through ParseOptions.directives.
+	 * Default forwards to handleUnknownAction() with the raw value.
+	 */
+	handleDirective(lineNum: number, directive: RobotsDirective): void {
+		this.handleUnknownAction(lineNum, directive.key, directive.rawValue);
+	}
+
 	/** Optional callback for line metadata. Default is no-op. */
 	reportLineMetadata(_lineNum: number, _metadata: LineMetadata): void {
 		// Default implementation does nothing
 	}
+
+	/**
+	 * Parse options used when parseRobotsTxt() is called with this handler and
+	 * without explicit options. Default is Google-compatible parsing.
+	 */
+	getParseOptions(): ParseOptions {
+		return {};
+	}
 }
@@ -183,3 +183,52 @@ export function maybeEscapePattern(src: string): {
 
 	return { escaped: result, wasEscaped: true };
 }
+
+/**
+ * Byte-level counterpart of maybeEscapePattern() for patterns read from raw
+ * robots.txt bytes. Octets with the high bit set are %-escaped as they are,
+ * without decoding them first, so invalid UTF-8 sequences are escaped exactly
+ * like the C++ implementation does:
+ *     /caf\xC3\xA9 ==> /caf%C3%A9
+ *     /\xFF ==> /%FF
+ *
+ * @param src - The pattern bytes to potentially escape
+ * @returns Object with escaped pattern and whether escaping occurred
+ */
+export function maybeEscapePatternBytes(src: Uint8Array): {
+	escaped: string;
+	wasEscaped: boolean;
+} {
+	let result = "";
+	let wasEscaped = false;
+
+	for (let i = 0; i < src.length; i++) {
+		const byte = src[i];
+
+		// (a) Normalize %-escaped sequence (eg. %2f -> %2F)
+		if (
+			byte === 0x25 &&
+			i + 2 < src.length &&
+			isHexDigit(String.fromCharCode(src[i + 1])) &&
+			isHexDigit(String.fromCharCode(src[i + 2]))
+		) {
+			const hex = String.fromCharCode(src[i + 1], src[i + 2]);
+			if (hex !== hex.toUpperCase()) {
+				wasEscaped = true;
+			}
+			result += "%" + hex.toUpperCase();
+			i += 2;
+			// (b) %-escape octets whose highest bit is set (non-ASCII)
+		} else if (byte > 127) {
+			result += "%";
+			result += K_HEX_DIGITS[(byte >> 4) & 0xf];
+			result += K_HEX_DIGITS[byte & 0xf];
+			wasEscaped = true;
+			// (c) Normal character, no modification needed
+		} else {
+			result += String.fromCharCode(byte);
+		}
+	}
+
+	return { escaped: result, wasEscaped };
+}
@@ -14,8 +14,10 @@
 
 import { describe, expect, test } from "bun:test";
 import {
+	matches,
 	ParsedRobots,
 	RobotsMatcher,
+	type RobotsMatchStrategy,
 	type UrlCheckResult,
 } from "../src/index.js";
 
@@ -162,6 +164,48 @@ Disallow:
 		}
 	});
 
+	test("Empty Disallow in a specific group keeps the agent out of '*'", () => {
+		// The empty rule makes BadBot's group one with rules, so the '*' group
+		// doesn't apply to BadBot, like in RobotsMatcher
+		const robotstxt =
+			"User-agent: BadBot\nDisallow:\n\nUser-agent: *\nDisallow: /\n";
+		const matcher = new RobotsMatcher();
+		const url = "http://example.com/page";
+
+		const result = ParsedRobots.parse(robotstxt).checkUrl("BadBot", url);
+		expect(result.allowed).toBe(true);
+		expect(result.everSeenSpecificAgent).toBe(true);
+		expect(result.matchedRuleType).toBe("none");
+		expect(matcher.oneAgentAllowedByRobots(robotstxt, "BadBot", url)).toBe(
+			true,
+		);
+		expect(
+			ParsedRobots.parse(robotstxt).checkUrl("OtherBot", url).allowed,
+		).toBe(false);
+	});
+
+	test("Empty rules end the user-agent list of a group", () => {
+		// 'b' starts a new group instead of joining 'a', so /x is only
+		// disallowed for 'b'
+		const robotstxt = "User-agent: a\nAllow:\nUser-agent: b\nDisallow: /x\n";
+		const parsed = ParsedRobots.parse(robotstxt);
+		const matcher = new RobotsMatcher();
+		const url = "http://example.com/x";
+
+		expect(parsed.checkUrl("a", url).allowed).toBe(true);
+		expect(parsed.checkUrl("b", url).allowed).toBe(false);
+		expect(
+			parsed
+				.getGroups()
+				.map((group) => group.userAgents.map((line) => line.agent)),
+		).toEqual([["a"], ["b"]]);
+		for (const agent of ["a", "b"]) {
+			expect(parsed.checkUrl(agent, url).allowed).toBe(
+				matcher.oneAgentAllowedByRobots(robotstxt, agent, url),
+			);
+		}
+	});
+
 	test("Empty URL list returns empty array", () => {
 		const results = RobotsMatcher.batchCheck(
 			"User-agent: *\nDisallow: /",
@@ -337,6 +381,178 @@ Disallow: /private/
 	});
 });
 
+describe("BulkCheck_MultipleUserAgents", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Disallow: /\n" + // 2
+		"\n" + // 3
+		"User-agent: Googlebot\n" + // 4
+		"Disallow: /private/\n" + // 5
+		"Allow: /private/shared/\n" + // 6
+		"\n" + // 7
+		"User-agent: Googlebot-Image\n" + // 8
+		"Disallow: /private/shared/images/\n" + // 9
+		"Allow: /private/photos/\n"; // 10
+
+	const parsed = ParsedRobots.parse(robotstxt);
+	const agents = ["Googlebot-Image", "Googlebot"];
+
+	test("Rules of all matching groups are combined", () => {
+		const results = parsed.checkUrls(agents, [
+			"http://example.com/private/photos/a.jpg",
+			"http://example.com/private/shared/images/a.jpg",
+			"http://example.com/private/shared/doc",
+			"http://example.com/private/doc",
+			"http://example.com/public",
+		]);
+		expect(results.map((r) => r.allowed)).toEqual([
+			true,
+			false,
+			true,
+			false,
+			true,
+		]);
+		expect(results.map((r) => r.matchingLine)).toEqual([10, 9, 6, 5, 0]);
+	});
+
+	test("Results report the group that produced the decision", () => {
+		const image = parsed.checkUrl(
+			agents,
+			"http://example.com/private/photos/a.jpg",
+		);
+		expect(image.matchedAgent).toBe("googlebot-image");
+		expect(image.matchedGroup).toBe(2);
+
+		const web = parsed.checkUrl(agents, "http://example.com/private/doc");
+		expect(web.matchedAgent).toBe("googlebot");
+		expect(web.matchedGroup).toBe(1);
+
+		const none = parsed.checkUrl(agents, "http://example.com/public");
+		expect(none.matchedAgent).toBe("");
+		expect(none.matchedGroup).toBe(-1);
+	});
+
+	test("Global rules apply only if no agent has a group", () => {
+		const result = parsed.checkUrl(
+			["OtherBot", "Bingbot"],
+			"http://example.com/page",
+		);
+		expect(result.allowed).toBe(false);
+		expect(result.matchedAgent).toBe("*");
+		expect(result.matchedGroup).toBe(0);
+		expect(parsed.getGroups()[result.matchedGroup]?.isGlobal).toBe(true);
+	});
+
+	test("A single agent in an array matches the string form", () => {
+		const url = "http://example.com/private/shared/doc";
+		expect(parsed.checkUrl(["Googlebot"], url)).toEqual(
+			parsed.checkUrl("Googlebot", url),
+		);
+	});
+
+	test("Results match RobotsMatcher.allowedByRobots", () => {
+		const urls = [
+			"http://example.com/",
+			"http://example.com/private/",
+			"http://example.com/private/photos/",
+			"http://example.com/private/shared/",
+			"http://example.com/private/shared/images/x",
+		];
+		const agentSets = [
+			["Googlebot-Image", "Googlebot"],
+			["Googlebot", "Googlebot-Image"],
+			["Googlebot-Image", "OtherBot"],
+			["OtherBot", "Bingbot"],
+		];
+
+		const matcher = new RobotsMatcher();
+		for (const agentSet of agentSets) {
+			const results = RobotsMatcher.batchCheck(robotstxt, agentSet, urls);
+			for (let i = 0; i < urls.length; i++) {
+				expect(results[i].allowed).toBe(
+					matcher.allowedByRobots(robotstxt, agentSet, urls[i]),
+				);
+			}
+		}
+	});
+});
+
+describe("BulkCheck_IgnoreGlobal", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Disallow: /\n" + // 2
+		"\n" + // 3
+		"User-agent: Googlebot\n" + // 4
+		"Disallow: /private/\n" + // 5
+		"Allow: /private/shared/\n"; // 6
+
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Global rules are ignored for agents without a group", () => {
+		const url = "http://example.com/page";
+		const result = parsed.checkUrl("Bingbot", url, { ignoreGlobal: true });
+		expect(result.allowed).toBe(true);
+		expect(result.matchedRuleType).toBe("none");
+		expect(result.matchingLine).toBe(0);
+		expect(result.everSeenSpecificAgent).toBe(false);
+
+		// Without the option, the '*' group still blocks it
+		expect(parsed.checkUrl("Bingbot", url).allowed).toBe(false);
+	});
+
+	test("Agents with a group are checked as usual", () => {
+		const urls = [
+			"http://example.com/private/doc",
+			"http://example.com/private/shared/doc",
+			"http://example.com/public",
+		];
+		const results = parsed.checkUrls("Googlebot", urls, {
+			ignoreGlobal: true,
+		});
+		expect(results).toEqual(parsed.checkUrls("Googlebot", urls));
+		expect(results.map((r) => r.allowed)).toEqual([false, true, true]);
+		expect(results.every((r) => r.everSeenSpecificAgent)).toBe(true);
+	});
+
+	test("everSeenSpecificAgent reflects the group used", () => {
+		const url = "http://example.com/page";
+		expect(parsed.checkUrl("Googlebot/2.1", url).everSeenSpecificAgent).toBe(
+			true,
+		);
+		expect(parsed.checkUrl("Bingbot", url).everSeenSpecificAgent).toBe(false);
+		expect(
+			parsed.checkUrl(["Bingbot", "Googlebot"], url).everSeenSpecificAgent,
+		).toBe(true);
+	});
+
+	test("Results match RobotsMatcher.disallowIgnoreGlobal", () => {
+		const urls = [
+			"http://example.com/",
+			"http://example.com/private/",
+			"http://example.com/private/shared/",
+			"http://example.com/other",
+		];
+		const agentSets = [
+			["Googlebot"],
+			["Bingbot"],
+			["Bingbot", "Googlebot"],
+			["OtherBot", "Bingbot"],
+		];
+
+		const matcher = new RobotsMatcher();
+		for (const agentSet of agentSets) {
+			const results = parsed.checkUrls(agentSet, urls, { ignoreGlobal: true });
+			for (let i = 0; i < urls.length; i++) {
+				matcher.allowedByRobots(robotstxt, agentSet, urls[i]);
+				expect(results[i].allowed).toBe(!matcher.disallowIgnoreGlobal());
+				expect(results[i].everSeenSpecificAgent).toBe(
+					matcher.everSeenSpecificAgent(),
+				);
+			}
+		}
+	});
+});
+
 describe("BulkCheck_WildcardPatterns", () => {
 	test("Wildcard * in pattern matches correctly", () => {
 		const robotstxt = `
@@ -514,6 +730,116 @@ describe("BulkCheck_ComprehensiveConsistency", () => {
 	}
 });
 
+describe("BulkCheck_RuleIndex", () => {
+	// Same priorities as the default strategy, but without the guarantee that
+	// lets ParsedRobots use its prefix index, so every rule is scanned
+	const fullScan: RobotsMatchStrategy = {
+		matchAllow: (path, pattern) =>
+			matches(path, pattern) ? pattern.length : -1,
+		matchDisallow: (path, pattern) =>
+			matches(path, pattern) ? pattern.length : -1,
+	};
+
+	const lines = ["User-agent: *", "Disallow: /tmp", "", "User-agent: FooBot"];
+	for (let i = 0; i < 500; i++) {
+		lines.push(`Disallow: /shop/${i % 50}/item${i}`);
+		lines.push(`Allow: /shop/${i % 50}/item${i}*.html$`);
+		if (i % 25 === 0) {
+			lines.push(`Disallow: /*/print${i}`);
+			lines.push(`Allow: /shop/${i % 50}/index.html`);
+		}
+	}
+	lines.push("Disallow: /shop/", "Allow: /shop/1", "Disallow: /shop/1", "");
+	lines.push("User-agent: BarBot", "Disallow: /shop/1/item1");
+	const robotstxt = lines.join("\n");
+
+	const urls: string[] = [];
+	for (let i = 0; i < 600; i += 7) {
+		urls.push(`http://example.com/shop/${i % 50}/item${i}`);
+		urls.push(`http://example.com/shop/${i % 50}/item${i}1.html`);
+		urls.push(`http://example.com/shop/${i % 50}/item${i}.html?x`);
+		urls.push(`http://example.com/shop/${i % 50}/`);
+		urls.push(`http://example.com/any/print${i}`);
+	}
+	urls.push("http://example.com/shop/1", "http://example.com/tmp/x");
+
+	const indexed = ParsedRobots.parse(robotstxt);
+	const scanned = ParsedRobots.parse(robotstxt, { matchStrategy: fullScan });
+
+	for (const agents of [["FooBot"], ["OtherBot"], ["BarBot", "FooBot"]]) {
+		test(`Indexed and full-scan results agree for ${agents}`, () => {
+			expect(indexed.checkUrls(agents, urls)).toEqual(
+				scanned.checkUrls(agents, urls),
+			);
+		});
+	}
+
+	test("Indexed results match RobotsMatcher", () => {
+		const matcher = new RobotsMatcher();
+		const results = indexed.checkUrls("FooBot", urls);
+		for (const result of results) {
+			expect(result.allowed).toBe(
+				matcher.oneAgentAllowedByRobots(robotstxt, "FooBot", result.url),
+			);
+			if (result.matchedRuleType !== "none") {
+				expect(result.matchingLine).toBe(matcher.matchingLine());
+			}
+		}
+	});
+
+	test("Allow wins a tie and the first rule in file order is reported", () => {
+		const result = indexed.checkUrl("FooBot", "http://example.com/shop/1");
+		expect(result.allowed).toBe(true);
+		expect(result.matchedPattern).toBe("/shop/1");
+		expect(result.matchingLine).toBe(lines.indexOf("Allow: /shop/1") + 1);
+	});
+
+	test("Index works for wildcard-only and anchored patterns", () => {
+		const parsed = ParsedRobots.parse(
+			"User-agent: *\nDisallow: *.pdf$\nDisallow: $\nAllow: /*\n",
+		);
+		expect(parsed.checkUrl("x", "http://example.com/a.pdf").allowed).toBe(
+			false,
+		);
+		expect(parsed.checkUrl("x", "http://example.com/a.pdfx").allowed).toBe(
+			true,
+		);
+	});
+});
+
+describe("BulkCheck_MaxBodySize", () => {
+	const robotstxt = "User-agent: *\nDisallow: /private/\nDisallow: /\n";
+	const maxBodySize = "User-agent: *\nDisallow: /private/\nDisa".length;
+
+	test("Rules after the limit are ignored by ParsedRobots", () => {
+		const parsed = ParsedRobots.parse(robotstxt, { maxBodySize });
+		expect(
+			parsed.checkUrl("MyBot", "http://example.com/private/x").allowed,
+		).toBe(false);
+		expect(parsed.checkUrl("MyBot", "http://example.com/public").allowed).toBe(
+			true,
+		);
+	});
+
+	test("RobotsMatcher honours the limit", () => {
+		const url = "http://example.com/public";
+		expect(
+			new RobotsMatcher().oneAgentAllowedByRobots(robotstxt, "MyBot", url),
+		).toBe(false);
+		expect(
+			new RobotsMatcher({ maxBodySize }).oneAgentAllowedByRobots(
+				robotstxt,
+				"MyBot",
+				url,
+			),
+		).toBe(true);
+		expect(
+			RobotsMatcher.batchCheck(robotstxt, "MyBot", [url], { maxBodySize })[0]
+				.allowed,
+		).toBe(true);
+	});
+});
+
 describe("BulkCheck_Performance", () => {
 	test("Can handle large number of URLs without timeout", () => {
 		const robotstxt = `
@@ -0,0 +1,191 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	ParsedRobots,
+	RobotsMatcher,
+	RobotsParseHandler,
+	RobotsParsingReporter,
+	parseRobotsTxt,
+} from "../src/index.js";
+
+const encoder = new TextEncoder();
+
+function bytesOf(...parts: (string | number[])[]): Uint8Array {
+	const chunks = parts.map((part) =>
+		typeof part === "string" ? encoder.encode(part) : new Uint8Array(part),
+	);
+	const result = new Uint8Array(
+		chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+class RuleCollector extends RobotsParseHandler {
+	rules: string[] = [];
+	sitemaps: string[] = [];
+	userAgents: string[] = [];
+
+	handleRobotsStart(): void {}
+	handleRobotsEnd(): void {}
+	handleUserAgent(_lineNum: number, value: string): void {
+		this.userAgents.push(value);
+	}
+	handleAllow(_lineNum: number, value: string): void {
+		this.rules.push(`allow ${value}`);
+	}
+	handleDisallow(_lineNum: number, value: string): void {
+		this.rules.push(`disallow ${value}`);
+	}
+	handleSitemap(_lineNum: number, value: string): void {
+		this.sitemaps.push(value);
+	}
+	handleUnknownAction(
+		_lineNum: number,
+		_action: string,
+		_value: string,
+	): void {}
+}
+
+describe("ByteInput_UTF8ByteOrderMark", () => {
+	test("Full BOM bytes are skipped", () => {
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(
+			bytesOf([0xef, 0xbb, 0xbf], "User-Agent: foo\nAllow: /AnyValue\n"),
+			report,
+		);
+		expect(report.validDirectives()).toBe(2);
+		expect(report.unusedDirectives()).toBe(0);
+	});
+
+	test("Partial BOM bytes are skipped", () => {
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(
+			bytesOf([0xef, 0xbb], "User-Agent: foo\nAllow: /AnyValue\n"),
+			report,
+		);
+		expect(report.validDirectives()).toBe(2);
+		expect(report.unusedDirectives()).toBe(0);
+	});
+
+	test("Broken BOM produces garbage line", () => {
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(
+			bytesOf([0xef, 0x11, 0xbf], "User-Agent: foo\nAllow: /AnyValue\n"),
+			report,
+		);
+		expect(report.validDirectives()).toBe(1);
+		expect(report.unusedDirectives()).toBe(1);
+	});
+});
+
+describe("ByteInput_Encoding", () => {
+	test("UTF-8 rules are escaped the same as string input", () => {
+		const robotstxt = "User-agent: *\nDisallow: /café\nAllow: /ünï/\n";
+		const fromString = new RuleCollector();
+		const fromBytes = new RuleCollector();
+		parseRobotsTxt(robotstxt, fromString);
+		parseRobotsTxt(encoder.encode(robotstxt), fromBytes);
+
+		expect(fromBytes.rules).toEqual([
+			"disallow /caf%C3%A9",
+			"allow /%C3%BCn%C3%AF/",
+		]);
+		expect(fromBytes.rules).toEqual(fromString.rules);
+	});
+
+	test("Invalid UTF-8 octets are escaped byte by byte", () => {
+		const handler = new RuleCollector();
+		parseRobotsTxt(
+			bytesOf("User-agent: *\nDisallow: /a", [0xff, 0xc3], "/b\n"),
+			handler,
+		);
+		expect(handler.rules).toEqual(["disallow /a%FF%C3/b"]);
+	});
+
+	test("Unescaped values are decoded as UTF-8", () => {
+		const handler = new RuleCollector();
+		parseRobotsTxt(
+			encoder.encode(
+				"User-agent: FooBot\nSitemap: https://example.com/é.xml\n",
+			),
+			handler,
+		);
+		expect(handler.userAgents).toEqual(["FooBot"]);
+		expect(handler.sitemaps).toEqual(["https://example.com/é.xml"]);
+	});
+
+	test("Non-breaking space octet is not trimmed from values", () => {
+		// U+00E0 is encoded as 0xC3 0xA0; 0xA0 must survive whitespace trimming.
+		const handler = new RuleCollector();
+		parseRobotsTxt(encoder.encode("User-agent: *\nDisallow: /à\n"), handler);
+		expect(handler.rules).toEqual(["disallow /%C3%A0"]);
+	});
+
+	test("ArrayBuffer input is accepted", () => {
+		const bytes = encoder.encode("User-agent: *\nDisallow: /private/\n");
+		const buffer = bytes.buffer.slice(
+			bytes.byteOffset,
+			bytes.byteOffset + bytes.byteLength,
+		);
+		const matcher = new RobotsMatcher();
+		expect(
+			matcher.oneAgentAllowedByRobots(
+				buffer,
+				"FooBot",
+				"http://foo.bar/private/x",
+			),
+		).toBe(false);
+		expect(
+			ParsedRobots.parse(buffer).checkUrl("FooBot", "http://foo.bar/private/x")
+				.allowed,
+		).toBe(false);
+	});
+});
+
+describe("ByteInput_LineTooLong", () => {
+	const kMaxLineLen = 2083 * 8;
+
+	test("Line length limit counts bytes, not code units", () => {
+		// Each 'é' is one UTF-16 code unit but two UTF-8 bytes.
+		const longline = "/" + "é".repeat(kMaxLineLen / 2);
+		const robotstxt = "user-agent: FooBot\ndisallow: " + longline + "\n";
+
+		const stringReport = new RobotsParsingReporter();
+		parseRobotsTxt(robotstxt, stringReport);
+		expect(stringReport.parseResults()[1].metadata.isLineTooLong).toBe(false);
+
+		const bytesReport = new RobotsParsingReporter();
+		parseRobotsTxt(encoder.encode(robotstxt), bytesReport);
+		expect(bytesReport.parseResults()[1].metadata.isLineTooLong).toBe(true);
+	});
+
+	test("Truncated multi-byte character is escaped as raw octet", () => {
+		const prefix = "disallow: /";
+		// Leave room for exactly one byte of the final two-byte character.
+		const filler = "a".repeat(kMaxLineLen - 1 - prefix.length - 1);
+		const handler = new RuleCollector();
+		parseRobotsTxt(
+			encoder.encode("user-agent: FooBot\n" + prefix + filler + "é\n"),
+			handler,
+		);
+		expect(handler.rules[0].endsWith("a%C3")).toBe(true);
+	});
+});
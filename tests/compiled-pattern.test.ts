@@ -0,0 +1,98 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import { CompiledPattern, matches } from "../src/index.js";
+
+describe("CompiledPattern_Structure", () => {
+	test("Literal prefix, wildcard and anchor are extracted", () => {
+		const compiled = new CompiledPattern("/fish*.php$");
+		expect(compiled.pattern).toBe("/fish*.php$");
+		expect(compiled.literalPrefix).toBe("/fish");
+		expect(compiled.hasWildcard).toBe(true);
+		expect(compiled.isAnchored).toBe(true);
+	});
+
+	test("Plain prefix pattern", () => {
+		const compiled = new CompiledPattern("/fish/");
+		expect(compiled.literalPrefix).toBe("/fish/");
+		expect(compiled.hasWildcard).toBe(false);
+		expect(compiled.isAnchored).toBe(false);
+	});
+
+	test("'$' is only an anchor at the end", () => {
+		const compiled = new CompiledPattern("/a$b");
+		expect(compiled.isAnchored).toBe(false);
+		expect(compiled.matches("/a$b")).toBe(true);
+		expect(compiled.matches("/a")).toBe(false);
+	});
+});
+
+describe("CompiledPattern_MatchesLikeMatches", () => {
+	const cases: [string, string][] = [
+		["/fish", "/fish.html"],
+		["/fish", "/Fish.asp"],
+		["/fish*", "/fishheads/yummy.html"],
+		["/fish/", "/fish"],
+		["/*.php", "/folder/filename.php?parameters"],
+		["/*.php$", "/filename.php?parameters"],
+		["/*.php$", "/folder/filename.php"],
+		["/fish*.php", "/fishheads/catfish.php?parameters"],
+		["/fish*.php", "/Fish.PHP"],
+		["", "/anything"],
+		["$", ""],
+		["$", "/"],
+		["*", ""],
+		["/*$", "/a"],
+		["/a**b", "/ab"],
+		["/a*b*c$", "/abcbc"],
+		["/a*b*c$", "/abcb"],
+		["/a*aa", "/aaa"],
+		["/a*aa$", "/aa"],
+		["/a*ab*b$", "/aab"],
+	];
+
+	for (const [pattern, path] of cases) {
+		test(`${JSON.stringify(pattern)} vs ${JSON.stringify(path)}`, () => {
+			expect(new CompiledPattern(pattern).matches(path)).toBe(
+				matches(path, pattern),
+			);
+		});
+	}
+
+	test("Exhaustive small patterns and paths agree", () => {
+		// Every string up to the given length over a small alphabet
+		const strings = (alphabet: string, maxLength: number): string[] => {
+			let level = [""];
+			const all = [""];
+			for (let length = 1; length <= maxLength; length++) {
+				level = level.flatMap((s) => [...alphabet].map((c) => s + c));
+				all.push(...level);
+			}
+			return all;
+		};
+
+		const paths = strings("ab$", 4);
+		const mismatches: string[] = [];
+		for (const pattern of strings("ab*$", 4)) {
+			const compiled = new CompiledPattern(pattern);
+			for (const path of paths) {
+				if (compiled.matches(path) !== matches(path, pattern)) {
+					mismatches.push(`${pattern} vs ${path}`);
+				}
+			}
+		}
+		expect(mismatches).toEqual([]);
+	});
+});
@@ -0,0 +1,190 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	DirectiveRegistry,
+	ParsedRobots,
+	RobotsParseHandler,
+	RobotsParsingReporter,
+	RobotsTagName,
+	isDirective,
+	parseRobotsTxt,
+	type RobotsDirective,
+} from "../src/index.js";
+
+class DirectiveCollector extends RobotsParseHandler {
+	directives: [number, RobotsDirective][] = [];
+	unknown: [number, string, string][] = [];
+	disallows: string[] = [];
+
+	handleRobotsStart(): void {}
+	handleRobotsEnd(): void {}
+	handleUserAgent(_lineNum: number, _value: string): void {}
+	handleAllow(_lineNum: number, _value: string): void {}
+	handleDisallow(_lineNum: number, value: string): void {
+		this.disallows.push(value);
+	}
+	handleSitemap(_lineNum: number, _value: string): void {}
+	handleUnknownAction(lineNum: number, action: string, value: string): void {
+		this.unknown.push([lineNum, action, value]);
+	}
+	handleDirective(lineNum: number, directive: RobotsDirective): void {
+		this.directives.push([lineNum, directive]);
+	}
+}
+
+function createRegistry() {
+	const directives = new DirectiveRegistry();
+	const crawlDelay = directives.register({
+		name: "crawl-delay",
+		typos: ["crawldelay"],
+		scope: "group",
+		parseValue: (value) => {
+			const seconds = Number(value);
+			return value.length > 0 && Number.isFinite(seconds) ? seconds : undefined;
+		},
+	});
+	const cleanParam = directives.register({
+		name: "clean-param",
+		aliases: ["cleanparam"],
+		scope: "global",
+	});
+	const disallowAiTraining = directives.register({
+		name: "disallow-ai-training",
+		scope: "group",
+	});
+	return { directives, crawlDelay, cleanParam, disallowAiTraining };
+}
+
+const kRobotsTxt =
+	"User-agent: *\n" + // 1
+	"Crawl-delay: 2.5\n" + // 2
+	"CRAWLDELAY: soon\n" + // 3
+	"Clean-param: ref /articles/\n" + // 4
+	"cleanparam: sid\n" + // 5
+	"Disallow-AI-Training: /\n" + // 6
+	"Disallow: /private\n" + // 7
+	"Host: example.com\n"; // 8
+
+describe("DirectiveRegistry_Registration", () => {
+	test("Duplicate keys are rejected", () => {
+		const { directives } = createRegistry();
+		expect(() =>
+			directives.register({ name: "Crawl-Delay", scope: "global" }),
+		).toThrow();
+		expect(() =>
+			directives.register({
+				name: "other",
+				aliases: ["CleanParam"],
+				scope: "global",
+			}),
+		).toThrow();
+	});
+
+	test("Lookup is case-insensitive and exact", () => {
+		const { directives, crawlDelay } = createRegistry();
+		expect(directives.lookup("CRAWL-DELAY", true)?.definition).toBe(crawlDelay);
+		expect(directives.lookup("crawl-delays", true)).toBeUndefined();
+		expect(directives.lookup("crawldelay", true)?.isTypo).toBe(true);
+		expect(directives.lookup("crawldelay", false)).toBeUndefined();
+		expect(directives.getDefinitions().map((d) => d.name)).toEqual([
+			"crawl-delay",
+			"clean-param",
+			"disallow-ai-training",
+		]);
+	});
+});
+
+describe("DirectiveRegistry_Parsing", () => {
+	test("Registered directives are passed to handleDirective", () => {
+		const { directives, crawlDelay, cleanParam } = createRegistry();
+		const handler = new DirectiveCollector();
+		parseRobotsTxt(kRobotsTxt, handler, { directives });
+
+		expect(handler.directives.map(([line]) => line)).toEqual([2, 3, 4, 5, 6]);
+
+		const [, delay] = handler.directives[0];
+		expect(isDirective(delay, crawlDelay)).toBe(true);
+		expect(isDirective(delay, cleanParam)).toBe(false);
+		if (isDirective(delay, crawlDelay)) {
+			const seconds: number | undefined = delay.value;
+			expect(seconds).toBe(2.5);
+		}
+		expect(delay).toEqual({
+			name: "crawl-delay",
+			key: "Crawl-delay",
+			rawValue: "2.5",
+			value: 2.5,
+			scope: "group",
+			isTypo: false,
+		});
+
+		// Typo with a value the parser rejects
+		expect(handler.directives[1][1].isTypo).toBe(true);
+		expect(handler.directives[1][1].value).toBeUndefined();
+		expect(handler.directives[1][1].rawValue).toBe("soon");
+
+		// Alias without value parser
+		expect(handler.directives[3][1]).toMatchObject({
+			name: "clean-param",
+			key: "cleanparam",
+			value: "sid",
+			scope: "global",
+		});
+
+		// Unregistered keys are still unknown actions
+		expect(handler.unknown).toEqual([[8, "Host", "example.com"]]);
+	});
+
+	test("Registered directives take precedence over prefix matching", () => {
+		const { directives } = createRegistry();
+		const handler = new DirectiveCollector();
+		parseRobotsTxt(kRobotsTxt, handler, { directives });
+		expect(handler.disallows).toEqual(["/private"]);
+
+		const unregistered = new DirectiveCollector();
+		parseRobotsTxt(kRobotsTxt, unregistered);
+		expect(unregistered.disallows).toEqual(["/", "/private"]);
+	});
+
+	test("Default handleDirective falls back to handleUnknownAction", () => {
+		const { directives } = createRegistry();
+		const parsed = ParsedRobots.parse(kRobotsTxt, { directives });
+		expect(
+			parsed.checkUrl("FooBot", "http://example.com/private").allowed,
+		).toBe(false);
+		expect(parsed.checkUrl("FooBot", "http://example.com/other").allowed).toBe(
+			true,
+		);
+	});
+
+	test("Reporter reports registered directives as custom", () => {
+		const { directives } = createRegistry();
+		const report = new RobotsParsingReporter({ directives });
+		parseRobotsTxt(kRobotsTxt, report);
+		const tags = report.parseResults().map((line) => line.tagName);
+		expect(tags.slice(0, 8)).toEqual([
+			RobotsTagName.UserAgent,
+			RobotsTagName.Custom,
+			RobotsTagName.Custom,
+			RobotsTagName.Custom,
+			RobotsTagName.Custom,
+			RobotsTagName.Custom,
+			RobotsTagName.Disallow,
+			RobotsTagName.Unused,
+		]);
+		expect(report.parseResults()[2].isTypo).toBe(true);
+	});
+});
@@ -0,0 +1,312 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	DisallowWinsTiesRobotsMatchStrategy,
+	getMatchStrategy,
+	LongestMatchRobotsMatchStrategy,
+	matches,
+	OriginalRobotsMatchStrategy,
+	ParsedRobots,
+	RobotsMatcher,
+	YandexRobotsMatchStrategy,
+	type MatchStrategyName,
+	type RobotsMatchStrategy,
+} from "../src/index.js";
+
+// Strategies with priorities the default one never produces, to check that
+// RobotsMatcher and ParsedRobots interpret them the same way.
+class ShortestMatchStrategy implements RobotsMatchStrategy {
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? 1000 - pattern.length : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern) ? 1000 - pattern.length : -1;
+	}
+}
+
+class ConstantPriorityStrategy implements RobotsMatchStrategy {
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? 1 : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern) ? 1 : -1;
+	}
+}
+
+class ZeroPriorityAllowStrategy implements RobotsMatchStrategy {
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? 0 : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern) ? pattern.length : -1;
+	}
+}
+
+class EmptyPatternCountsStrategy implements RobotsMatchStrategy {
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? pattern.length + 1 : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern) ? pattern.length + 1 : -1;
+	}
+}
+
+class PathLengthStrategy implements RobotsMatchStrategy {
+	public matchAllow(path: string, pattern: string): number {
+		return matches(path, pattern) ? path.length * 100 - pattern.length : -1;
+	}
+
+	public matchDisallow(path: string, pattern: string): number {
+		return matches(path, pattern) ? path.length * 100 : -1;
+	}
+}
+
+const strategies: [string, RobotsMatchStrategy][] = [
+	["LongestMatch", new LongestMatchRobotsMatchStrategy()],
+	["ShortestMatch", new ShortestMatchStrategy()],
+	["ConstantPriority", new ConstantPriorityStrategy()],
+	["ZeroPriorityAllow", new ZeroPriorityAllowStrategy()],
+	["EmptyPatternCounts", new EmptyPatternCountsStrategy()],
+	["PathLength", new PathLengthStrategy()],
+	["Original1994", new OriginalRobotsMatchStrategy()],
+	["Yandex", new YandexRobotsMatchStrategy()],
+	["DisallowWinsTies", new DisallowWinsTiesRobotsMatchStrategy()],
+];
+
+const robotsTxts = [
+	"User-agent: *\nDisallow: /private/\nAllow: /private/public/\n",
+	"User-agent: *\nDisallow: /\nAllow: /$\nAllow: /*.html$\n",
+	"User-agent: *\nDisallow:\nAllow: /a\n",
+	"User-agent: *\nAllow:\nDisallow: /a/b\n",
+	"User-agent: *\nAllow: /dir/index.html\nDisallow: /dir/\n",
+	"User-agent: FooBot\nDisallow: /\nAllow: /foo\n\n" +
+		"User-agent: *\nDisallow: /foo\n",
+	"User-agent: FooBot\nDisallow:\n\nUser-agent: *\nDisallow: /\n",
+	"User-agent: FooBot\nUser-agent: *\nDisallow: /x\nAllow: /x/y\n\n" +
+		"User-agent: BarBot\nDisallow: /x/y\n",
+	"User-agent: FooBot\nDisallow: /a\n\nUser-agent: BarBot\nAllow: /a/b\n" +
+		"Disallow: /a/b/c\n\nUser-agent: FooBot\nAllow: /a/b/c/d\n",
+];
+
+const agentSets = [["FooBot"], ["BarBot"], ["OtherBot"], ["BarBot", "FooBot"]];
+
+const urls = [
+	"http://example.com/",
+	"http://example.com/a",
+	"http://example.com/a/b",
+	"http://example.com/a/b/c",
+	"http://example.com/a/b/c/d",
+	"http://example.com/dir/",
+	"http://example.com/dir/index.html",
+	"http://example.com/foo",
+	"http://example.com/page.html",
+	"http://example.com/private/public/x",
+	"http://example.com/private/x",
+	"http://example.com/x/y",
+	"http://example.com/x/z",
+];
+
+describe("MatchStrategy_Consistency", () => {
+	for (const [name, strategy] of strategies) {
+		test(`${name}: single-URL and bulk paths agree`, () => {
+			const options = { matchStrategy: strategy };
+			const matcher = new RobotsMatcher(options);
+
+			for (const robotstxt of robotsTxts) {
+				const parsed = ParsedRobots.parse(robotstxt, options);
+				for (const agents of agentSets) {
+					const results = parsed.checkUrls(agents, urls);
+					for (const result of results) {
+						const allowed = matcher.allowedByRobots(
+							robotstxt,
+							agents,
+							result.url,
+						);
+						expect(result.allowed).toBe(allowed);
+						if (result.matchedRuleType !== "none") {
+							expect(result.matchingLine).toBe(matcher.matchingLine());
+						}
+					}
+				}
+			}
+		});
+	}
+});
+
+describe("MatchStrategy_Option", () => {
+	const robotstxt = "User-agent: *\nDisallow: /a\nAllow: /a/b\n";
+	const url = "http://example.com/a/b";
+
+	test("Default strategy is longest match", () => {
+		expect(
+			new RobotsMatcher().oneAgentAllowedByRobots(robotstxt, "x", url),
+		).toBe(true);
+		expect(ParsedRobots.parse(robotstxt).checkUrl("x", url).allowed).toBe(true);
+	});
+
+	test("Custom strategy is used by RobotsMatcher", () => {
+		const matcher = new RobotsMatcher({
+			matchStrategy: new ShortestMatchStrategy(),
+		});
+		expect(matcher.oneAgentAllowedByRobots(robotstxt, "x", url)).toBe(false);
+	});
+
+	test("Custom strategy is used by ParsedRobots and batchCheck", () => {
+		const options = { matchStrategy: new ShortestMatchStrategy() };
+		const result = ParsedRobots.parse(robotstxt, options).checkUrl("x", url);
+		expect(result.allowed).toBe(false);
+		expect(result.matchingLine).toBe(2);
+		expect(RobotsMatcher.batchCheck(robotstxt, "x", [url], options)[0]).toEqual(
+			result,
+		);
+	});
+
+	test("Matches with priority 0 don't decide", () => {
+		const options = { matchStrategy: new ZeroPriorityAllowStrategy() };
+		const result = ParsedRobots.parse(
+			"User-agent: *\nAllow: /a\n",
+			options,
+		).checkUrl("x", url);
+		expect(result.allowed).toBe(true);
+		expect(result.matchedRuleType).toBe("none");
+		expect(result.matchingLine).toBe(0);
+	});
+});
+
+// Conformance table: [robots.txt rules for FooBot, path, expected allowed].
+type ConformanceCase = [string, string, boolean];
+
+function checkConformance(name: MatchStrategyName, cases: ConformanceCase[]) {
+	for (const [rules, path, expected] of cases) {
+		const robotstxt = `user-agent: FooBot\n${rules}`;
+		const url = `http://foo.bar${path}`;
+		test(`${JSON.stringify(rules)} ${path}`, () => {
+			const matcher = new RobotsMatcher({ matchStrategy: name });
+			expect(matcher.oneAgentAllowedByRobots(robotstxt, "FooBot", url)).toBe(
+				expected,
+			);
+			const parsed = ParsedRobots.parse(robotstxt, { matchStrategy: name });
+			expect(parsed.checkUrl("FooBot", url).allowed).toBe(expected);
+		});
+	}
+}
+
+describe("MatchStrategy_LongestMatch", () => {
+	checkConformance("longest-match", [
+		["allow: /x/\ndisallow: /\n", "/x/page", true],
+		["disallow: /\nallow: /x/\n", "/x/page", true],
+		["allow: /page\ndisallow: /*.html\n", "/page.html", false],
+		["allow: /page\ndisallow: /page\n", "/page", true],
+		["disallow: /fish*\nallow: /fish\n", "/fish", false],
+		["disallow: /*.php$\n", "/index.php", false],
+		["disallow: /*.php$\n", "/index.php?x", true],
+		["disallow:\n", "/x", true],
+	]);
+});
+
+describe("MatchStrategy_Original1994", () => {
+	checkConformance("original-1994", [
+		// First match wins, even if a later rule is longer
+		["allow: /x/\ndisallow: /\n", "/x/page", true],
+		["disallow: /\nallow: /x/\n", "/x/page", false],
+		["disallow: /x\nallow: /x/page\n", "/x/page", false],
+		// Prefix matching only: '*' and '$' are literal characters
+		["disallow: /*.html\n", "/page.html", true],
+		["disallow: /*.html\n", "/*.html", false],
+		["disallow: /page$\n", "/page", true],
+		["disallow: /page$\n", "/page$", false],
+		// Empty Disallow allows everything
+		["disallow:\n", "/x", true],
+		["disallow:\ndisallow: /x\n", "/x", false],
+	]);
+});
+
+describe("MatchStrategy_Yandex", () => {
+	checkConformance("yandex", [
+		["allow: /x/\ndisallow: /\n", "/x/page", true],
+		["disallow: /\nallow: /x/\n", "/x/page", true],
+		["allow: /x\ndisallow: /x/\n", "/x/page", false],
+		// Allow wins a tie of the same length
+		["disallow: /page\nallow: /page\n", "/page", true],
+		["allow: /page\ndisallow: /page\n", "/page", true],
+		// Trailing '*' is implicit and doesn't make a rule longer
+		["disallow: /fish*\nallow: /fish\n", "/fish", true],
+		["allow: /fish*\ndisallow: /fish\n", "/fish", true],
+		["disallow: *\n", "/x", false],
+		["disallow: /*.php$\n", "/index.php", false],
+		["disallow: /*.php$\n", "/index.php?x", true],
+		["disallow:\n", "/x", true],
+	]);
+});
+
+describe("MatchStrategy_DisallowWinsTies", () => {
+	checkConformance("disallow-wins-ties", [
+		["allow: /x/\ndisallow: /\n", "/x/page", true],
+		["disallow: /\nallow: /x/\n", "/x/page", true],
+		// Disallow wins a tie of the same length
+		["allow: /page\ndisallow: /page\n", "/page", false],
+		["disallow: /page\nallow: /page\n", "/page", false],
+		["allow: /\ndisallow: /\n", "/", false],
+		// But not against a longer Allow
+		["allow: /page1\ndisallow: /page\n", "/page1", true],
+		["disallow: /fish*\nallow: /fish\n", "/fish", false],
+		// Empty Disallow still allows everything
+		["disallow:\nallow:\n", "/x", true],
+	]);
+});
+
+describe("MatchStrategy_ByName", () => {
+	test("Shipped strategies can be created by name", () => {
+		expect(getMatchStrategy("longest-match")).toBeInstanceOf(
+			LongestMatchRobotsMatchStrategy,
+		);
+		expect(getMatchStrategy("original-1994")).toBeInstanceOf(
+			OriginalRobotsMatchStrategy,
+		);
+		expect(getMatchStrategy("yandex")).toBeInstanceOf(
+			YandexRobotsMatchStrategy,
+		);
+		expect(getMatchStrategy("disallow-wins-ties")).toBeInstanceOf(
+			DisallowWinsTiesRobotsMatchStrategy,
+		);
+	});
+
+	test("Unknown names are rejected", () => {
+		expect(() => getMatchStrategy("bogus" as MatchStrategyName)).toThrow(
+			"Unknown match strategy: bogus",
+		);
+		expect(() =>
+			ParsedRobots.parse("", { matchStrategy: "bogus" as MatchStrategyName }),
+		).toThrow();
+	});
+
+	test("batchCheck accepts a strategy name", () => {
+		const robotstxt = "user-agent: *\ndisallow: /\nallow: /x\n";
+		const urls = ["http://foo.bar/x"];
+		expect(RobotsMatcher.batchCheck(robotstxt, "FooBot", urls)[0].allowed).toBe(
+			true,
+		);
+		expect(
+			RobotsMatcher.batchCheck(robotstxt, "FooBot", urls, {
+				matchStrategy: "original-1994",
+			})[0].allowed,
+		).toBe(false);
+	});
+});
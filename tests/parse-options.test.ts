@@ -0,0 +1,186 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	ParsedRobots,
+	RobotsMatcher,
+	RobotsParsingReporter,
+	RobotsTagName,
+	parseRobotsTxt,
+	type ParseOptions,
+} from "../src/index.js";
+
+const kStrict: ParseOptions = {
+	allowFrequentTypos: false,
+	allowWhitespaceSeparator: false,
+	skipBom: false,
+};
+
+function isAllowed(
+	robotstxt: string,
+	url: string,
+	options: ParseOptions = {},
+): boolean {
+	const matcher = new RobotsMatcher(options);
+	return matcher.oneAgentAllowedByRobots(robotstxt, "FooBot", url);
+}
+
+describe("ParseOptions_FrequentTypos", () => {
+	const robotstxt = "useragent: FooBot\ndisalow: /\n";
+
+	test("Typos are accepted by default", () => {
+		expect(isAllowed(robotstxt, "http://foo.bar/x")).toBe(false);
+	});
+
+	test("Typos are ignored when disabled", () => {
+		expect(
+			isAllowed(robotstxt, "http://foo.bar/x", { allowFrequentTypos: false }),
+		).toBe(true);
+	});
+
+	test("Reporter treats typos as unknown keys when disabled", () => {
+		const report = new RobotsParsingReporter({ allowFrequentTypos: false });
+		parseRobotsTxt(robotstxt, report);
+		expect(report.validDirectives()).toBe(0);
+		expect(report.unusedDirectives()).toBe(2);
+		expect(report.parseResults()[1].isTypo).toBe(false);
+	});
+});
+
+describe("ParseOptions_WhitespaceSeparator", () => {
+	const robotstxt = "user-agent FooBot\ndisallow /\n";
+
+	test("Missing colon is accepted by default", () => {
+		expect(isAllowed(robotstxt, "http://foo.bar/x")).toBe(false);
+	});
+
+	test("Missing colon makes the line invalid when disabled", () => {
+		expect(
+			isAllowed(robotstxt, "http://foo.bar/x", {
+				allowWhitespaceSeparator: false,
+			}),
+		).toBe(true);
+
+		const report = new RobotsParsingReporter({
+			allowWhitespaceSeparator: false,
+		});
+		parseRobotsTxt(robotstxt, report);
+		const line = report.parseResults()[0];
+		expect(line.tagName).toBe(RobotsTagName.Unknown);
+		expect(line.metadata.hasDirective).toBe(false);
+		expect(line.metadata.isMissingColonSeparator).toBe(false);
+	});
+});
+
+describe("ParseOptions_SkipBom", () => {
+	const robotstxt = "\xEF\xBB\xBFUser-Agent: FooBot\nDisallow: /\n";
+
+	test("BOM is skipped by default", () => {
+		expect(isAllowed(robotstxt, "http://foo.bar/x")).toBe(false);
+	});
+
+	test("BOM is part of the first key when not skipped", () => {
+		expect(isAllowed(robotstxt, "http://foo.bar/x", { skipBom: false })).toBe(
+			true,
+		);
+	});
+});
+
+describe("ParseOptions_MaxLineLength", () => {
+	test("Lines are cut at maxLineLength - 1", () => {
+		const robotstxt = "user-agent: *\ndisallow: /abcdef\n";
+		// "disallow: /ab" is 13 units
+		const options = { maxLineLength: 14 };
+		expect(isAllowed(robotstxt, "http://foo.bar/abX", options)).toBe(false);
+		expect(isAllowed(robotstxt, "http://foo.bar/abX")).toBe(true);
+
+		const report = new RobotsParsingReporter(options);
+		parseRobotsTxt(robotstxt, report);
+		expect(report.parseResults()[1].metadata.isLineTooLong).toBe(true);
+	});
+});
+
+describe("ParseOptions_SideBySide", () => {
+	const robotstxt =
+		"User-agent: FooBot\n" + "Disallow /private\n" + "Disalow: /admin\n";
+
+	test("Strict and Google-compatible parses of the same file differ", () => {
+		const google = ParsedRobots.parse(robotstxt);
+		const strict = ParsedRobots.parse(robotstxt, kStrict);
+		const urls = ["http://foo.bar/private", "http://foo.bar/admin"];
+
+		expect(google.checkUrls("FooBot", urls).map((r) => r.allowed)).toEqual([
+			false,
+			false,
+		]);
+		expect(strict.checkUrls("FooBot", urls).map((r) => r.allowed)).toEqual([
+			true,
+			true,
+		]);
+	});
+
+	test("Explicit options take precedence over the handler's", () => {
+		const report = new RobotsParsingReporter(kStrict);
+		parseRobotsTxt(robotstxt, report, {});
+		expect(report.validDirectives()).toBe(3);
+	});
+});
+
+describe("ParseOptions_ExactKeyMatch", () => {
+	const robotstxt =
+		"User-agent: FooBot\n" + // 1
+		"Disallowed-paths: /private\n" + // 2
+		"Allowance: /private/public\n" + // 3
+		"Disalow: /admin\n" + // 4
+		"Sitemaps-old: https://foo.bar/s.xml\n"; // 5
+
+	test("Keys are matched by prefix by default", () => {
+		expect(isAllowed(robotstxt, "http://foo.bar/private")).toBe(false);
+		expect(isAllowed(robotstxt, "http://foo.bar/private/public")).toBe(true);
+	});
+
+	test("Only exact key names and typos are accepted in exact mode", () => {
+		const options = { exactKeyMatch: true };
+		expect(isAllowed(robotstxt, "http://foo.bar/private", options)).toBe(true);
+		// Exact typos are still accepted
+		expect(isAllowed(robotstxt, "http://foo.bar/admin", options)).toBe(false);
+	});
+
+	test("Prefix-only matches are flagged in line metadata", () => {
+		for (const exactKeyMatch of [false, true]) {
+			const report = new RobotsParsingReporter({ exactKeyMatch });
+			parseRobotsTxt(robotstxt, report);
+			const prefixLines = report
+				.parseResults()
+				.filter((line) => line.metadata.isPrefixMatch)
+				.map((line) => line.lineNum);
+			expect(prefixLines).toEqual([2, 3, 5]);
+		}
+	});
+
+	test("Prefix-only matches are unknown keys in exact mode", () => {
+		const report = new RobotsParsingReporter({ exactKeyMatch: true });
+		parseRobotsTxt(robotstxt, report);
+		const tags = report.parseResults().map((line) => line.tagName);
+		expect(tags.slice(0, 5)).toEqual([
+			RobotsTagName.UserAgent,
+			RobotsTagName.Unknown,
+			RobotsTagName.Unknown,
+			RobotsTagName.Disallow,
+			RobotsTagName.Unknown,
+		]);
+		expect(report.parseResults()[3].isTypo).toBe(true);
+	});
+});
@@ -0,0 +1,528 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	DirectiveRegistry,
+	formatExplanation,
+	K_MAX_CRAWL_DELAY,
+	ParsedRobots,
+} from "../src/index.js";
+
+describe("ParsedRobots_CrawlDelay", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Crawl-delay: 2\n" + // 2
+		"Disallow: /private\n" + // 3
+		"\n" + // 4
+		"User-agent: Bingbot\n" + // 5
+		"Crawl-delay: 0.5\n" + // 6
+		"Disallow: /bing\n" + // 7
+		"User-agent: Yandex\n" + // 8
+		"Crawl-delay: 86400\n" + // 9
+		"Disallow: /search\n" + // 10
+		"\n" + // 11
+		"User-agent: Googlebot\n" + // 12
+		"Disallow: /tmp\n" + // 13
+		"\n" + // 14
+		"User-agent: Slurp\n" + // 15
+		"Crawl-delay: soon\n" + // 16
+		"Crawl-delay: 5\n" + // 17
+		"Disallow: /slurp\n" + // 18
+		"User-agent: BadBot\n" + // 19
+		"Crawl-delay: -1\n"; // 20
+
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Specific group with fractional delay", () => {
+		expect(parsed.getCrawlDelay("Bingbot/2.0")).toEqual({
+			delay: 0.5,
+			lineNumber: 6,
+			rawValue: "0.5",
+			isInvalid: false,
+			isClamped: false,
+		});
+	});
+
+	test("Unknown agent falls back to '*' group", () => {
+		const result = parsed.getCrawlDelay("OtherBot");
+		expect(result.delay).toBe(2);
+		expect(result.lineNumber).toBe(2);
+	});
+
+	test("Specific group without crawl-delay does not use '*' value", () => {
+		const result = parsed.getCrawlDelay("Googlebot");
+		expect(result.delay).toBeUndefined();
+		expect(result.lineNumber).toBe(0);
+		expect(result.isInvalid).toBe(false);
+	});
+
+	test("Absurd values are clamped to the cap", () => {
+		expect(K_MAX_CRAWL_DELAY).toBe(60);
+		const result = parsed.getCrawlDelay("Yandex");
+		expect(result.delay).toBe(K_MAX_CRAWL_DELAY);
+		expect(result.isClamped).toBe(true);
+		expect(result.rawValue).toBe("86400");
+
+		expect(parsed.getCrawlDelay("Yandex", 3600).delay).toBe(3600);
+		expect(parsed.getCrawlDelay("Yandex", Infinity).delay).toBe(86400);
+	});
+
+	test("First valid value of a group is used", () => {
+		const result = parsed.getCrawlDelay("Slurp");
+		expect(result.delay).toBe(5);
+		expect(result.lineNumber).toBe(17);
+	});
+
+	test("Invalid values are reported", () => {
+		expect(parsed.getCrawlDelay("BadBot")).toEqual({
+			delay: undefined,
+			lineNumber: 20,
+			rawValue: "-1",
+			isInvalid: true,
+			isClamped: false,
+		});
+	});
+
+	test("Crawl-delay-only groups don't change URL matching", () => {
+		// BadBot has no rules, so '*' rules still apply like before
+		expect(parsed.hasSpecificAgent("BadBot")).toBe(false);
+		expect(
+			parsed.checkUrl("BadBot", "http://example.com/private").allowed,
+		).toBe(false);
+	});
+
+	test("A crawl-delay-only group sets the delay but not the rules", () => {
+		const robots = ParsedRobots.parse(
+			"User-agent: *\nCrawl-delay: 1\nDisallow: /private\n\n" +
+				"User-agent: BadBot\nCrawl-delay: 5\n",
+		);
+		expect(robots.getCrawlDelay("BadBot").delay).toBe(5);
+		expect(robots.getCrawlDelay("BadBot").lineNumber).toBe(6);
+
+		const result = robots.checkUrl("BadBot", "http://example.com/private");
+		expect(result.allowed).toBe(false);
+		expect(result.matchedAgent).toBe("*");
+		expect(result.everSeenSpecificAgent).toBe(false);
+	});
+
+	test("Crawl-delay does not end the user-agent list of a group", () => {
+		const shared = ParsedRobots.parse(
+			"User-agent: a\nCrawl-delay: 3\nUser-agent: b\nDisallow: /\n",
+		);
+		expect(shared.getCrawlDelay("a").delay).toBe(3);
+		expect(shared.getCrawlDelay("b").delay).toBe(3);
+	});
+
+	test("Crawl-delay registered as a custom directive is honoured", () => {
+		const directives = new DirectiveRegistry();
+		directives.register({
+			name: "crawl-delay",
+			aliases: ["crawldelay"],
+			scope: "group",
+		});
+		const custom = ParsedRobots.parse("User-agent: *\ncrawldelay: 7\n", {
+			directives,
+		});
+		expect(custom.getCrawlDelay("FooBot").delay).toBe(7);
+	});
+});
+
+describe("ParsedRobots_Sitemaps", () => {
+	const robotstxt =
+		"Sitemap: https://example.com/sitemap.xml\n" + // 1
+		"User-agent: *\n" + // 2
+		"Disallow: /private\n" + // 3
+		"sitemap: /news-sitemap.xml\n" + // 4
+		"Sitemap: https://example.com/sitemap.xml\n" + // 5
+		"Sitemap: ftp://example.com/sitemap.xml\n" + // 6
+		"Sitemap: http://[bad\n" + // 7
+		"Sitemap: https://example.com/news-sitemap.xml\n"; // 8
+
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Sitemaps are listed in file order with line numbers", () => {
+		const sitemaps = parsed.getSitemaps();
+		expect(sitemaps.map((s) => s.lineNumber)).toEqual([1, 4, 6, 7, 8]);
+		expect(sitemaps[0]).toEqual({
+			url: "https://example.com/sitemap.xml",
+			lineNumber: 1,
+			rawValue: "https://example.com/sitemap.xml",
+			isRelative: false,
+			isValid: true,
+		});
+	});
+
+	test("Relative URLs are flagged without a base URL", () => {
+		const relative = parsed.getSitemaps()[1];
+		expect(relative?.url).toBe("/news-sitemap.xml");
+		expect(relative?.isRelative).toBe(true);
+		expect(relative?.isValid).toBe(false);
+	});
+
+	test("Relative URLs are resolved against the base URL", () => {
+		const sitemaps = parsed.getSitemaps("https://example.com/robots.txt");
+		expect(sitemaps[1]).toEqual({
+			url: "https://example.com/news-sitemap.xml",
+			lineNumber: 4,
+			rawValue: "/news-sitemap.xml",
+			isRelative: true,
+			isValid: true,
+		});
+		// Line 8 now resolves to the same URL as line 4
+		expect(sitemaps.map((s) => s.lineNumber)).toEqual([1, 4, 6, 7]);
+	});
+
+	test("Non-http(s) and malformed URLs are flagged", () => {
+		const [, , ftp, bad] = parsed.getSitemaps();
+		expect(ftp?.isValid).toBe(false);
+		expect(ftp?.isRelative).toBe(false);
+		expect(bad?.url).toBe("http://[bad");
+		expect(bad?.isValid).toBe(false);
+	});
+
+	test("Sitemaps don't affect URL matching", () => {
+		expect(
+			parsed.checkUrl("FooBot", "http://example.com/private").allowed,
+		).toBe(false);
+		expect(ParsedRobots.parse("").getSitemaps()).toEqual([]);
+	});
+});
+
+describe("ParsedRobots_Groups", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Disallow: /private\n" + // 2
+		"\n" + // 3
+		"User-agent: Googlebot\n" + // 4
+		"User-agent: Googlebot-Image/1.0\n" + // 5
+		"Allow: /pics/index.html\n" + // 6
+		"Disallow: /pics\n" + // 7
+		"\n" + // 8
+		"User-agent: googlebot\n" + // 9
+		"Disallow: /tmp\n" + // 10
+		"\n" + // 11
+		"User-agent: Bingbot\n" + // 12
+		"Crawl-delay: 5\n"; // 13
+
+	const parsed = ParsedRobots.parse(robotstxt);
+	const groups = parsed.getGroups();
+
+	test("Groups are listed in file order with their line spans", () => {
+		expect(groups.map((g) => [g.startLine, g.endLine])).toEqual([
+			[1, 2],
+			[4, 7],
+			[9, 10],
+			[12, 13],
+		]);
+		expect(groups.map((g) => g.index)).toEqual([0, 1, 2, 3]);
+		expect(groups[0]?.isGlobal).toBe(true);
+		expect(groups[1]?.isGlobal).toBe(false);
+	});
+
+	test("User-agent lines keep the raw value and the matched name", () => {
+		expect(groups[1]?.userAgents).toEqual([
+			{ value: "Googlebot", lineNumber: 4, agent: "googlebot" },
+			{ value: "Googlebot-Image/1.0", lineNumber: 5, agent: "googlebot-image" },
+		]);
+		expect(groups[0]?.userAgents).toEqual([
+			{ value: "*", lineNumber: 1, agent: "*" },
+		]);
+	});
+
+	test("Derived index.html rules are marked", () => {
+		expect(groups[1]?.rules).toEqual([
+			{
+				pattern: "/pics/index.html",
+				lineNumber: 6,
+				isAllow: true,
+				isDerived: false,
+			},
+			{ pattern: "/pics/$", lineNumber: 6, isAllow: true, isDerived: true },
+			{ pattern: "/pics", lineNumber: 7, isAllow: false, isDerived: false },
+		]);
+	});
+
+	test("Groups for the same agent are reported as merged", () => {
+		expect(groups[1]?.mergedWith).toEqual([2]);
+		expect(groups[2]?.mergedWith).toEqual([1]);
+		expect(groups[0]?.mergedWith).toEqual([]);
+		// Groups without rules are not merged
+		expect(groups[3]?.rules).toEqual([]);
+		expect(groups[3]?.mergedWith).toEqual([]);
+	});
+
+	test("Groups can be selected for a user-agent", () => {
+		expect(parsed.getGroups("Googlebot/2.1").map((g) => g.index)).toEqual([
+			1, 2,
+		]);
+		expect(parsed.getGroups("Googlebot-Image").map((g) => g.index)).toEqual([
+			1,
+		]);
+		expect(parsed.getGroups("Bingbot").map((g) => g.index)).toEqual([0]);
+		expect(parsed.getGroups("OtherBot").map((g) => g.index)).toEqual([0]);
+	});
+
+	test("Lines other than rules don't end the user-agent list", () => {
+		const shared = ParsedRobots.parse(
+			"User-agent: a\nCrawl-delay: 1\nUser-agent: b\nDisallow: /\n",
+		).getGroups();
+		expect(shared).toHaveLength(1);
+		expect(shared[0]?.userAgents.map((ua) => ua.agent)).toEqual(["a", "b"]);
+		expect([shared[0]?.startLine, shared[0]?.endLine]).toEqual([1, 4]);
+	});
+
+	test("Selected groups hold the rules used by checkUrl", () => {
+		const result = parsed.checkUrl("Googlebot", "http://example.com/tmp/x");
+		const rules = parsed.getGroups("Googlebot").flatMap((g) => g.rules);
+		expect(
+			rules.some(
+				(rule) =>
+					rule.lineNumber === result.matchingLine &&
+					rule.pattern === result.matchedPattern,
+			),
+		).toBe(true);
+	});
+});
+
+describe("ParsedRobots_ExplainUrl", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Disallow: /\n" + // 2
+		"\n" + // 3
+		"User-agent: Googlebot\n" + // 4
+		"Disallow: /private/\n" + // 5
+		"Allow: /priv\n" + // 6
+		"Allow: /private/index.html\n" + // 7
+		"Disallow: /tmp\n" + // 8
+		"Allow: /tmp\n"; // 9
+
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Longer Disallow outranks a shorter Allow", () => {
+		const explanation = parsed.explainUrl(
+			"Googlebot",
+			"http://example.com/private/doc",
+		);
+		expect(explanation.path).toBe("/private/doc");
+		expect(explanation.groupSelection).toBe("specific");
+		expect(explanation.specificAgents).toEqual(["googlebot"]);
+		expect(explanation.selectedGroups).toEqual([1]);
+		expect(explanation.reason).toBe("higher-priority");
+		expect(explanation.winner).toEqual({
+			rule: {
+				pattern: "/private/",
+				lineNumber: 5,
+				isAllow: false,
+				isDerived: false,
+			},
+			group: 1,
+			priority: 9,
+		});
+		expect(explanation.runnerUp?.rule.lineNumber).toBe(6);
+		expect(explanation.runnerUp?.priority).toBe(5);
+		expect(explanation.matchedRules.map((r) => r.rule.lineNumber)).toEqual([
+			5, 6,
+		]);
+		expect(
+			explanation.unmatchedRules.map((r) => [r.rule.pattern, r.priority]),
+		).toEqual([
+			["/private/index.html", -1],
+			["/private/$", -1],
+			["/tmp", -1],
+			["/tmp", -1],
+		]);
+		expect(explanation.result).toEqual(
+			parsed.checkUrl("Googlebot", "http://example.com/private/doc"),
+		);
+	});
+
+	test("Equal priorities are a tie won by Allow", () => {
+		const explanation = parsed.explainUrl(
+			"Googlebot",
+			"http://example.com/tmp/x",
+		);
+		expect(explanation.reason).toBe("tie-allow-wins");
+		expect(explanation.result.allowed).toBe(true);
+		expect(explanation.winner?.rule.lineNumber).toBe(9);
+		expect(explanation.runnerUp?.rule.lineNumber).toBe(8);
+	});
+
+	test("Derived index.html rules are flagged and skipped when not needed", () => {
+		const directory = parsed.explainUrl(
+			"Googlebot",
+			"http://example.com/private/",
+		);
+		expect(directory.winner?.rule.isDerived).toBe(true);
+		expect(directory.winner?.rule.pattern).toBe("/private/$");
+
+		const page = parsed.explainUrl(
+			"Googlebot",
+			"http://example.com/private/index.html",
+		);
+		expect(page.winner?.rule.pattern).toBe("/private/index.html");
+		expect(page.skippedRules.map((r) => r.rule.pattern)).toEqual([
+			"/private/$",
+		]);
+	});
+
+	test("Other agents fall back to the '*' group", () => {
+		const explanation = parsed.explainUrl("Bingbot", "http://example.com/a");
+		expect(explanation.groupSelection).toBe("global");
+		expect(explanation.specificAgents).toEqual([]);
+		expect(explanation.selectedGroups).toEqual([0]);
+		expect(explanation.reason).toBe("disallow-only");
+		expect(explanation.result.matchedAgent).toBe("*");
+	});
+
+	test("No rules and no match are reported", () => {
+		const empty = ParsedRobots.parse("User-agent: Googlebot\nDisallow: /x\n");
+		const noRules = empty.explainUrl("Bingbot", "http://example.com/a");
+		expect(noRules.groupSelection).toBe("none");
+		expect(noRules.reason).toBe("no-rules");
+		expect(noRules.winner).toBeNull();
+
+		const noMatch = empty.explainUrl("Googlebot", "http://example.com/a");
+		expect(noMatch.reason).toBe("no-match");
+		expect(noMatch.unmatchedRules).toHaveLength(1);
+
+		const zero = ParsedRobots.parse("User-agent: *\nDisallow:\n").explainUrl(
+			"Bingbot",
+			"http://example.com/a",
+		);
+		expect(zero.reason).toBe("zero-priority");
+		expect(zero.matchedRules[0]?.priority).toBe(0);
+		expect(zero.result.allowed).toBe(true);
+	});
+
+	test("First-match strategies skip the rules after the deciding one", () => {
+		const original = ParsedRobots.parse(robotstxt, {
+			matchStrategy: "original-1994",
+		});
+		const explanation = original.explainUrl(
+			"Googlebot",
+			"http://example.com/private/doc",
+		);
+		expect(explanation.reason).toBe("first-match");
+		expect(explanation.winner?.rule.lineNumber).toBe(5);
+		expect(explanation.skippedRules.map((r) => r.rule.lineNumber)).toEqual([
+			6, 7, 7, 8, 9,
+		]);
+	});
+});
+
+describe("ParsedRobots_FormatExplanation", () => {
+	const robotstxt =
+		"User-agent: *\n" + // 1
+		"Disallow: /\n" + // 2
+		"\n" + // 3
+		"User-agent: Googlebot\n" + // 4
+		"Disallow: /private/\n" + // 5
+		"Allow: /priv\n" + // 6
+		"Allow: /private/index.html\n" + // 7
+		"Disallow: /tmp\n" + // 8
+		"Allow: /tmp\n"; // 9
+
+	const parsed = ParsedRobots.parse(robotstxt);
+	const explain = (agent: string, path: string) =>
+		parsed.explainUrl(agent, `http://example.com${path}`);
+
+	test("Names the winner and the rule it outranked", () => {
+		expect(formatExplanation(explain("Googlebot", "/private/doc"))).toBe(
+			"Blocked for Googlebot by line 5 `Disallow: /private/` (longest match, 9 chars) which outranks line 6 `Allow: /priv` (5 chars)",
+		);
+	});
+
+	test("Explains ties and derived rules", () => {
+		expect(formatExplanation(explain("Googlebot", "/tmp"))).toBe(
+			"Allowed for Googlebot by line 9 `Allow: /tmp` which ties with line 8 `Disallow: /tmp` (4 chars each); Allow wins ties",
+		);
+		expect(formatExplanation(explain("Googlebot", "/private/"))).toBe(
+			"Allowed for Googlebot by line 7 `Allow: /private/$` (from index.html normalization) (longest match, 10 chars) which outranks line 5 `Disallow: /private/` (9 chars)",
+		);
+	});
+
+	test("Mentions the global fallback and missing matches", () => {
+		expect(formatExplanation(explain("Bingbot", "/x"))).toBe(
+			"Blocked for Bingbot by line 2 `Disallow: /` (longest match, 1 char), using the `*` group since no group names Bingbot",
+		);
+		expect(formatExplanation(explain("Googlebot", "/x"))).toBe(
+			"Allowed for Googlebot: no rule matches `/x`",
+		);
+		expect(
+			formatExplanation(
+				ParsedRobots.parse("User-agent: a\nDisallow: /\n").explainUrl(
+					"Bingbot",
+					"http://example.com/a",
+				),
+			),
+		).toBe(
+			"Allowed for Bingbot: the robots.txt has no rules for it or for `*`",
+		);
+	});
+
+	test("Describes first-match decisions", () => {
+		const original = ParsedRobots.parse(robotstxt, {
+			matchStrategy: "original-1994",
+		});
+		expect(
+			formatExplanation(
+				original.explainUrl("Googlebot", "http://example.com/private/doc"),
+			),
+		).toBe(
+			"Blocked for Googlebot by line 5 `Disallow: /private/` (first matching rule)",
+		);
+	});
+
+	test("Shows raw priorities when they aren't pattern lengths", () => {
+		const ties = ParsedRobots.parse(robotstxt, {
+			matchStrategy: "disallow-wins-ties",
+		});
+		expect(
+			formatExplanation(ties.explainUrl("Googlebot", "http://example.com/tmp")),
+		).toBe(
+			"Blocked for Googlebot by line 8 `Disallow: /tmp` (highest priority, 9) which outranks line 9 `Allow: /tmp` (priority 8)",
+		);
+
+		// The winner's priority is its length, the runner-up's isn't
+		const yandex = ParsedRobots.parse(
+			"User-agent: *\nDisallow: /fish*\nAllow: /fish/\n",
+			{ matchStrategy: "yandex" },
+		);
+		expect(
+			formatExplanation(
+				yandex.explainUrl("Googlebot", "http://example.com/fish/x"),
+			),
+		).toStartWith(
+			"Allowed for Googlebot by line 3 `Allow: /fish/` (highest priority, 6) which outranks line 2 `Disallow: /fish*` (priority 5)",
+		);
+	});
+
+	test("Markdown output bolds the verdict and fences backticks", () => {
+		expect(
+			formatExplanation(explain("Googlebot", "/private/doc"), {
+				markdown: true,
+			}),
+		).toStartWith("**Blocked** for Googlebot by line 5 `Disallow: /private/`");
+
+		const ticks = ParsedRobots.parse("User-agent: *\nDisallow: /a`b\n");
+		expect(
+			formatExplanation(ticks.explainUrl("my_bot", "http://example.com/a`b"), {
+				markdown: true,
+			}),
+		).toBe(
+			"**Blocked** for my\\_bot by line 2 ``Disallow: /a`b`` (longest match, 4 chars), using the `*` group since no group names my\\_bot",
+		);
+	});
+});
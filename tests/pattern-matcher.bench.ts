@@ -0,0 +1,115 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+// Benchmark for pattern matching: matches() against CompiledPattern, and the
+// bulk URL check that uses compiled patterns. Run with `bun run bench`.
+
+import {
+	CompiledPattern,
+	matches,
+	ParsedRobots,
+	type RobotsMatchStrategy,
+} from "../src/index.js";
+
+const patterns = [
+	"/private/",
+	"/search",
+	"/*.php$",
+	"/fish*.php",
+	"/*/print/*",
+	"/a*b*c*d*e",
+	"/images/*.jpg$",
+];
+
+const paths: string[] = [];
+for (let i = 0; i < 1000; i++) {
+	paths.push(`/dir${i % 37}/page${i}.php?session=${i * 7}`);
+	paths.push(`/private/reports/${i}/print/summary.html`);
+	paths.push(`/images/gallery/${i}/photo.jpg`);
+}
+
+function bench(name: string, iterations: number, fn: () => number): void {
+	// Warm up so the JIT has compiled the code being measured
+	fn();
+	const start = performance.now();
+	let result = 0;
+	for (let i = 0; i < iterations; i++) {
+		result += fn();
+	}
+	const elapsed = performance.now() - start;
+	const perIteration = (elapsed / iterations).toFixed(3);
+	console.log(`${name}: ${perIteration} ms/iteration (checksum ${result})`);
+}
+
+const compiled = patterns.map((pattern) => new CompiledPattern(pattern));
+
+bench("matches()", 100, () => {
+	let count = 0;
+	for (const path of paths) {
+		for (const pattern of patterns) {
+			if (matches(path, pattern)) count++;
+		}
+	}
+	return count;
+});
+
+bench("CompiledPattern.matches()", 100, () => {
+	let count = 0;
+	for (const path of paths) {
+		for (const pattern of compiled) {
+			if (pattern.matches(path)) count++;
+		}
+	}
+	return count;
+});
+
+const robotsTxt =
+	"User-agent: *\n" +
+	patterns.map((pattern) => `Disallow: ${pattern}\n`).join("");
+const parsed = ParsedRobots.parse(robotsTxt);
+const urls = paths.map((path) => `https://example.com${path}`);
+
+bench("ParsedRobots.checkUrls()", 100, () => {
+	return parsed.checkUrls("Googlebot", urls).filter((r) => r.allowed).length;
+});
+
+// Large sites list thousands of rules; the prefix index only tests the rules
+// whose literal prefix starts the path
+const manyRules = ["User-agent: *"];
+for (let i = 0; i < 5000; i++) {
+	manyRules.push(`Disallow: /product/${i}/reviews`);
+	manyRules.push(`Allow: /product/${i}/reviews/*.html$`);
+}
+const manyRulesTxt = manyRules.join("\n");
+const fullScan: RobotsMatchStrategy = {
+	matchAllow: (path, pattern) => (matches(path, pattern) ? pattern.length : -1),
+	matchDisallow: (path, pattern) =>
+		matches(path, pattern) ? pattern.length : -1,
+};
+const indexed = ParsedRobots.parse(manyRulesTxt);
+const scanned = ParsedRobots.parse(manyRulesTxt, { matchStrategy: fullScan });
+const productUrls = Array.from(
+	{ length: 300 },
+	(_, i) => `https://example.com/product/${i * 13}/reviews/page.html`,
+);
+
+bench("ParsedRobots.checkUrls() 10K rules, indexed", 10, () => {
+	return indexed.checkUrls("Googlebot", productUrls).filter((r) => r.allowed)
+		.length;
+});
+
+bench("ParsedRobots.checkUrls() 10K rules, full scan", 10, () => {
+	return scanned.checkUrls("Googlebot", productUrls).filter((r) => r.allowed)
+		.length;
+});
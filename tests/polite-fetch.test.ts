@@ -0,0 +1,268 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	createPoliteFetch,
+	RobotsCache,
+	RobotsDisallowedError,
+	RobotsFetcher,
+	type PoliteFetchOptions,
+} from "../src/index.js";
+
+const ROBOTS_TXT = `User-agent: *
+Disallow: /private
+
+User-agent: SlowBot
+Crawl-delay: 2
+Disallow: /private
+`;
+
+/**
+ * A polite fetch over a stub fetch serving ROBOTS_TXT (or robots) for
+ * every origin and 'ok' for pages. Sleeping advances the fake clock.
+ */
+function createStub(
+	options: Partial<PoliteFetchOptions> = {},
+	robots: Record<string, Response> = {},
+) {
+	const clock = { now: 1_000_000 };
+	const requests: { url: string; at: number; init?: RequestInit }[] = [];
+	const sleeps: number[] = [];
+	const politeFetch = createPoliteFetch({
+		userAgent: "MyBot/1.0 (+https://example.com/bot)",
+		fetch: async (url, init) => {
+			requests.push({ url, at: clock.now, init });
+			if (url.endsWith("/robots.txt")) {
+				return robots[url] ?? new Response(ROBOTS_TXT);
+			}
+			return new Response("ok");
+		},
+		now: () => clock.now,
+		sleep: async (milliseconds) => {
+			sleeps.push(milliseconds);
+			clock.now += milliseconds;
+		},
+		...options,
+	});
+	return { politeFetch, clock, requests, sleeps };
+}
+
+describe("PoliteFetch_Robots", () => {
+	test("Allowed URLs are fetched with the User-Agent header", async () => {
+		const { politeFetch, requests } = createStub();
+		const response = await politeFetch("https://example.com/page", {
+			headers: { accept: "text/html", "user-agent": "overridden" },
+		});
+		expect(await response.text()).toBe("ok");
+		expect(requests.map((request) => request.url)).toEqual([
+			"https://example.com/robots.txt",
+			"https://example.com/page",
+		]);
+		for (const request of requests) {
+			const headers = new Headers(request.init?.headers);
+			expect(headers.get("user-agent")).toBe(
+				"MyBot/1.0 (+https://example.com/bot)",
+			);
+		}
+		const headers = new Headers(requests[1]?.init?.headers);
+		expect(headers.get("accept")).toBe("text/html");
+	});
+
+	test("The robots.txt is fetched once per origin", async () => {
+		const { politeFetch, requests } = createStub();
+		await politeFetch("https://example.com/a");
+		await politeFetch("https://example.com/b");
+		await politeFetch("http://example.com/c");
+		expect(
+			requests.filter((request) => request.url.endsWith("/robots.txt")),
+		).toHaveLength(2);
+	});
+
+	test("Disallowed URLs throw a RobotsDisallowedError", async () => {
+		const { politeFetch, requests } = createStub();
+		let error: unknown;
+		try {
+			await politeFetch("https://example.com/private/page");
+		} catch (caught) {
+			error = caught;
+		}
+		expect(error).toBeInstanceOf(RobotsDisallowedError);
+		expect(error).toBeInstanceOf(Error);
+		const disallowed = error as RobotsDisallowedError;
+		expect(disallowed.name).toBe("RobotsDisallowedError");
+		expect(disallowed.url).toBe("https://example.com/private/page");
+		expect(disallowed.userAgent).toBe("MyBot");
+		expect(disallowed.result.matchingLine).toBe(2);
+		expect(disallowed.result.matchedPattern).toBe("/private");
+		expect(disallowed.message).toBe(
+			"Disallowed by robots.txt for MyBot: https://example.com/private/page (line 2: Disallow: /private)",
+		);
+		expect(requests).toHaveLength(1);
+	});
+
+	test("An unreachable robots.txt disallows everything", async () => {
+		const { politeFetch } = createStub(
+			{},
+			{
+				"https://example.com/robots.txt": new Response("", { status: 503 }),
+			},
+		);
+		await expect(politeFetch("https://example.com/page")).rejects.toThrow(
+			RobotsDisallowedError,
+		);
+	});
+
+	test("A given cache is used", async () => {
+		const fetcher = new RobotsFetcher({
+			fetch: async () => new Response("User-agent: *\nDisallow: /\n"),
+		});
+		const cache = new RobotsCache({ fetcher });
+		const { politeFetch } = createStub({ cache });
+		await expect(politeFetch("https://example.com/")).rejects.toThrow(
+			RobotsDisallowedError,
+		);
+		expect(cache.size).toBe(1);
+	});
+});
+
+describe("PoliteFetch_UserAgent", () => {
+	test("The product token must be a valid user-agent to obey", () => {
+		for (const userAgent of ["", "MyBot2/1.0", "/1.0", "My.Bot"]) {
+			expect(() => createPoliteFetch({ userAgent })).toThrow(
+				"Invalid user-agent product token to obey",
+			);
+		}
+		expect(() =>
+			createPoliteFetch({ userAgent: "MyBot/1.0", productToken: "my bot" }),
+		).toThrow("Invalid user-agent product token to obey: 'my bot'");
+		expect(() => createPoliteFetch({ userAgent: "My-Bot_X" })).not.toThrow();
+	});
+
+	test("The product token selects the robots.txt group", async () => {
+		const { politeFetch, sleeps } = createStub({
+			userAgent: "Mozilla/5.0 (compatible; SlowBot/2.0)",
+			productToken: "SlowBot",
+		});
+		await politeFetch("https://example.com/a");
+		await politeFetch("https://example.com/b");
+		expect(sleeps).toEqual([2000]);
+	});
+});
+
+describe("PoliteFetch_CrawlDelay", () => {
+	test("Requests to an origin are spaced by its crawl-delay", async () => {
+		const { politeFetch, requests, clock } = createStub({
+			userAgent: "SlowBot/1.0",
+		});
+		const start = clock.now;
+		await politeFetch("https://example.com/a");
+		await politeFetch("https://example.com/b");
+		clock.now += 500;
+		await politeFetch("https://example.com/c");
+		await politeFetch("https://other.example/d");
+		// Like the robots.txt, the delay is per origin, not per host
+		await politeFetch("http://example.com/e");
+
+		const pages = requests.filter(
+			(request) => !request.url.endsWith("/robots.txt"),
+		);
+		expect(pages.map((request) => request.at - start)).toEqual([
+			0, 2000, 4000, 4000, 4000,
+		]);
+	});
+
+	test("Concurrent requests queue up", async () => {
+		// The clock stands still, so each request has to wait behind the slots
+		// the others reserved
+		const sleeps: number[] = [];
+		const { politeFetch } = createStub(
+			{
+				sleep: async (milliseconds) => {
+					sleeps.push(milliseconds);
+				},
+			},
+			{
+				"https://example.com/robots.txt": new Response(
+					"User-agent: *\nCrawl-delay: 2\n",
+				),
+			},
+		);
+		await Promise.all([
+			politeFetch("https://example.com/a"),
+			politeFetch("https://example.com/b"),
+			politeFetch("https://example.com/c"),
+		]);
+		expect(sleeps).toEqual([2000, 4000]);
+	});
+
+	test("Default and maximum crawl-delay", async () => {
+		const { politeFetch, sleeps } = createStub({
+			userAgent: "SlowBot",
+			maxCrawlDelay: 1,
+		});
+		await politeFetch("https://example.com/a");
+		await politeFetch("https://example.com/b");
+		expect(sleeps).toEqual([1000]);
+
+		const fallback = createStub({ defaultCrawlDelay: 0.5 });
+		await fallback.politeFetch("https://example.com/a");
+		await fallback.politeFetch("https://example.com/b");
+		expect(fallback.sleeps).toEqual([500]);
+
+		const eager = createStub();
+		await eager.politeFetch("https://example.com/a");
+		await eager.politeFetch("https://example.com/b");
+		expect(eager.sleeps).toEqual([]);
+	});
+
+	test("Aborting while waiting rejects without fetching", async () => {
+		let fetched = 0;
+		const politeFetch = createPoliteFetch({
+			userAgent: "SlowBot",
+			fetch: async (url) => {
+				if (!url.endsWith("/robots.txt")) fetched++;
+				return new Response("User-agent: *\nCrawl-delay: 60\n");
+			},
+		});
+		await politeFetch("https://example.com/a");
+		const controller = new AbortController();
+		const pending = politeFetch("https://example.com/b", {
+			signal: controller.signal,
+		});
+		controller.abort(new Error("stop"));
+		await expect(pending).rejects.toThrow("stop");
+		expect(fetched).toBe(1);
+	});
+
+	test("An aborted request gives its slot back", async () => {
+		const sleeps: number[] = [];
+		const { politeFetch } = createStub({
+			userAgent: "SlowBot/1.0",
+			sleep: async (milliseconds, signal) => {
+				sleeps.push(milliseconds);
+				signal?.throwIfAborted();
+			},
+		});
+		await politeFetch("https://example.com/a");
+		await expect(
+			politeFetch("https://example.com/b", {
+				signal: AbortSignal.abort(new Error("stop")),
+			}),
+		).rejects.toThrow("stop");
+		// Waits for /a only, not for /b that was never sent
+		await politeFetch("https://example.com/c");
+		expect(sleeps).toEqual([2000, 2000]);
+	});
+});
@@ -14,6 +14,7 @@
 
 import { describe, expect, test } from "bun:test";
 import {
+	K_MAX_BODY_SIZE,
 	parseRobotsTxt,
 	RobotsParsingReporter,
 	RobotsTagName,
@@ -47,6 +48,10 @@ function expectLineToParseTo(
 	expect(actual.metadata.isMissingColonSeparator).toBe(
 		expectedResult.metadata.isMissingColonSeparator,
 	);
+	expect(actual.metadata.isPrefixMatch).toBe(
+		expectedResult.metadata.isPrefixMatch,
+	);
+	expect(actual.metadata.isTruncated).toBe(expectedResult.metadata.isTruncated);
 }
 
 describe("LinesNumbersAreCountedCorrectly", () => {
@@ -92,6 +97,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -108,6 +115,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -124,6 +133,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: true,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -140,6 +151,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -156,6 +169,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -172,6 +187,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -188,6 +205,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -204,6 +223,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -220,6 +241,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -236,6 +259,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -252,6 +277,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: true,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -268,6 +295,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: true,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -284,6 +313,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: true,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -300,6 +331,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -316,6 +349,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -332,6 +367,8 @@ describe("LinesNumbersAreCountedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 	});
@@ -400,6 +437,8 @@ describe("LinesTooLongReportedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -416,6 +455,8 @@ describe("LinesTooLongReportedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: true,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
 			},
 		});
 
@@ -432,7 +473,119 @@ describe("LinesTooLongReportedCorrectly", () => {
 				isAcceptableTypo: false,
 				isLineTooLong: false,
 				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: false,
+			},
+		});
+	});
+});
+
+describe("BodyTruncationReportedCorrectly", () => {
+	const kFile =
+		"user-agent: foo\n" + // 1
+		"disallow: /private\n" + // 2
+		"allow: /public\n"; // 3
+
+	test("Body within the limit is not truncated", () => {
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(kFile, report, { maxBodySize: kFile.length });
+		expect(report.truncatedAtLine()).toBe(0);
+		expect(report.validDirectives()).toBe(3);
+		expect(report.lastLineSeen()).toBe(4);
+	});
+
+	test("Line cut off by the limit is dropped and reported", () => {
+		const report = new RobotsParsingReporter();
+		// Cut "disallow: /private" after "disallow: /p"
+		const limit = "user-agent: foo\ndisallow: /p".length;
+		parseRobotsTxt(kFile, report, { maxBodySize: limit });
+
+		expect(report.truncatedAtLine()).toBe(2);
+		expect(report.validDirectives()).toBe(1);
+		expect(report.lastLineSeen()).toBe(2);
+
+		const parseResults = report.parseResults();
+		expectLineToParseTo([], parseResults, {
+			lineNum: 2,
+			tagName: RobotsTagName.Unknown,
+			isTypo: false,
+			metadata: {
+				isEmpty: false,
+				hasComment: false,
+				isComment: false,
+				hasDirective: false,
+				isAcceptableTypo: false,
+				isLineTooLong: false,
+				isMissingColonSeparator: false,
+				isPrefixMatch: false,
+				isTruncated: true,
 			},
 		});
 	});
+
+	test("Line ending at the limit completes the line", () => {
+		const report = new RobotsParsingReporter();
+		// The newline after "disallow: /private" is the first unit past the limit.
+		const limit = "user-agent: foo\ndisallow: /private".length;
+		parseRobotsTxt(kFile, report, { maxBodySize: limit });
+
+		expect(report.validDirectives()).toBe(2);
+		expect(report.truncatedAtLine()).toBe(3);
+		expect(report.parseResults()[1].tagName).toBe(RobotsTagName.Disallow);
+	});
+
+	test("Only a line ending past the limit is not a truncation", () => {
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(kFile, report, { maxBodySize: kFile.length - 1 });
+		expect(report.truncatedAtLine()).toBe(0);
+		expect(report.validDirectives()).toBe(3);
+
+		// CRLF is one line ending, a second one is more content
+		const crlf = "user-agent: foo\r\n";
+		parseRobotsTxt(crlf, report, { maxBodySize: crlf.length - 2 });
+		expect(report.truncatedAtLine()).toBe(0);
+		parseRobotsTxt(crlf + "\n", report, { maxBodySize: crlf.length - 2 });
+		expect(report.truncatedAtLine()).toBe(2);
+	});
+
+	test("Limit counts UTF-8 bytes for string input", () => {
+		const text = "user-agent: foo\ndisallow: /é\n";
+		const report = new RobotsParsingReporter();
+		// "é" is one code unit but two bytes, so it doesn't fit
+		parseRobotsTxt(text, report, { maxBodySize: text.length - 1 });
+		expect(report.truncatedAtLine()).toBe(2);
+		expect(report.validDirectives()).toBe(1);
+
+		// A surrogate pair is four bytes
+		const emoji = "user-agent: foo\ndisallow: /\u{1f600}";
+		const size = new TextEncoder().encode(emoji).length;
+		parseRobotsTxt(emoji, report, { maxBodySize: size });
+		expect(report.truncatedAtLine()).toBe(0);
+		parseRobotsTxt(emoji, report, { maxBodySize: size - 1 });
+		expect(report.truncatedAtLine()).toBe(2);
+	});
+
+	test("Limit counts bytes for binary input", () => {
+		const body = new TextEncoder().encode("user-agent: foo\ndisallow: /é\n");
+		const report = new RobotsParsingReporter();
+		// "é" is two bytes, so the line is cut in the middle of it.
+		parseRobotsTxt(body, report, { maxBodySize: body.length - 2 });
+		expect(report.truncatedAtLine()).toBe(2);
+		expect(report.validDirectives()).toBe(1);
+	});
+
+	test("Google's limit is 500 KiB", () => {
+		expect(K_MAX_BODY_SIZE).toBe(512000);
+
+		let robotstxt = "user-agent: *\n";
+		while (robotstxt.length < K_MAX_BODY_SIZE) {
+			robotstxt += "disallow: /some/long/path/\n";
+		}
+		const report = new RobotsParsingReporter();
+		parseRobotsTxt(robotstxt + "disallow: /\n", report, {
+			maxBodySize: K_MAX_BODY_SIZE,
+		});
+		expect(report.truncatedAtLine()).toBeGreaterThan(0);
+		expect(report.truncatedAtLine()).toBe(report.lastLineSeen());
+	});
 });
@@ -0,0 +1,334 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	FileRobotsCacheStorage,
+	K_MAX_CACHE_AGE,
+	OriginalRobotsMatchStrategy,
+	RobotsCache,
+	RobotsFetcher,
+	type RobotsCacheOptions,
+	type RobotsCacheRecord,
+	type RobotsCacheStorage,
+} from "../src/index.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const ROBOTS_TXT = "User-agent: *\nDisallow: /private\n";
+
+let directory: string;
+
+beforeEach(async () => {
+	directory = await mkdtemp(join(tmpdir(), "robots-cache-"));
+});
+
+afterEach(async () => {
+	await rm(directory, { recursive: true, force: true });
+});
+
+/**
+ * A cache over a stub fetch answering every robots.txt with the given status
+ * and body. The clock is shared with the storage and advanced by hand.
+ */
+function createCache(
+	clock: { now: number },
+	storage: RobotsCacheStorage,
+	reply: { status?: number; body?: string } = { body: ROBOTS_TXT },
+	options: RobotsCacheOptions = {},
+) {
+	const requests: string[] = [];
+	const now = () => clock.now;
+	const fetcher = new RobotsFetcher({
+		now,
+		fetch: async (url) => {
+			requests.push(url);
+			return new Response(reply.body ?? "", {
+				status: reply.status ?? 200,
+				headers: { "content-type": "text/plain" },
+			});
+		},
+	});
+	const cache = new RobotsCache({ fetcher, storage, now, ...options });
+	return { cache, requests };
+}
+
+describe("RobotsCacheStorage_File", () => {
+	test("A restarted cache reads fresh entries from disk", async () => {
+		const clock = { now: 1_000_000 };
+		const storage = new FileRobotsCacheStorage({
+			directory,
+			now: () => clock.now,
+		});
+		const first = createCache(clock, storage);
+		const fetched = await first.cache.get("https://example.com/a");
+		expect(fetched.status).toBe("miss");
+		expect(await readdir(directory)).toEqual([
+			"https%3A%2F%2Fexample.com.json",
+		]);
+
+		clock.now += 1000;
+		const second = createCache(clock, storage);
+		const restored = await second.cache.get("https://example.com/b");
+		expect(restored.status).toBe("hit");
+		expect(second.requests).toHaveLength(0);
+		expect(restored.entry.expiresAt).toBe(fetched.entry.expiresAt);
+		expect(restored.entry.result.finalUrl).toBe(
+			"https://example.com/robots.txt",
+		);
+		expect(restored.entry.result.headers?.get("content-type")).toBe(
+			"text/plain",
+		);
+		expect(restored.robots.toJSON()).toEqual(fetched.robots.toJSON());
+		expect(
+			restored.robots.checkUrl("a", "https://example.com/private").allowed,
+		).toBe(false);
+
+		// Now in memory
+		expect((await second.cache.get("https://example.com/c")).status).toBe(
+			"hit",
+		);
+	});
+
+	test("Expired entries on disk are fetched again, or served stale", async () => {
+		const clock = { now: 1_000_000 };
+		const storage = new FileRobotsCacheStorage({
+			directory,
+			now: () => clock.now,
+		});
+		await createCache(clock, storage).cache.get("https://example.com/");
+
+		clock.now += K_MAX_CACHE_AGE;
+		const failing = createCache(clock, storage, { status: 503 });
+		const stale = await failing.cache.get("https://example.com/");
+		expect(stale.status).toBe("stale");
+		expect(stale.robots.checkUrl("a", "https://example.com/x").allowed).toBe(
+			true,
+		);
+		expect(stale.entry.unreachableSince).toBe(clock.now);
+
+		// The failure is stored too
+		const record = await storage.get("https://example.com");
+		expect(record?.unreachableSince).toBe(clock.now);
+		expect(record?.outcome).toBe("success");
+
+		clock.now += DAY;
+		const recovered = createCache(clock, storage);
+		expect((await recovered.cache.get("https://example.com/")).status).toBe(
+			"miss",
+		);
+		expect(recovered.requests).toHaveLength(1);
+		expect((await storage.get("https://example.com"))?.unreachableSince).toBe(
+			null,
+		);
+	});
+
+	test("Records older than the ttl are ignored", async () => {
+		const clock = { now: 1_000_000 };
+		const storage = new FileRobotsCacheStorage({
+			directory,
+			ttl: DAY,
+			now: () => clock.now,
+		});
+		await createCache(clock, storage).cache.get("https://example.com/");
+		clock.now += DAY - 1;
+		expect(await storage.get("https://example.com")).toBeDefined();
+		clock.now += 1;
+		expect(await storage.get("https://example.com")).toBeUndefined();
+	});
+
+	test("A failing write still returns the fetched entry", async () => {
+		const clock = { now: 1_000_000 };
+		const failure = new Error("disk full");
+		const storage: RobotsCacheStorage = {
+			get: async () => undefined,
+			set: async () => {
+				throw failure;
+			},
+			delete: async () => false,
+		};
+		const errors: [unknown, string][] = [];
+		const { cache, requests } = createCache(clock, storage, undefined, {
+			onStorageError: (error, origin) => errors.push([error, origin]),
+		});
+
+		const result = await cache.get("https://example.com/");
+		expect(result.status).toBe("miss");
+		expect(
+			result.robots.checkUrl("a", "https://example.com/private").allowed,
+		).toBe(false);
+		expect(errors).toEqual([[failure, "https://example.com"]]);
+
+		// Kept in memory
+		expect((await cache.get("https://example.com/x")).status).toBe("hit");
+		expect(requests).toHaveLength(1);
+
+		// Without a callback the error is dropped
+		const silent = createCache(clock, storage);
+		expect((await silent.cache.get("https://example.com/")).status).toBe(
+			"miss",
+		);
+	});
+
+	test("Writes replace records atomically", async () => {
+		const storage = new FileRobotsCacheStorage({ directory });
+		const { cache } = createCache({ now: Date.now() }, storage);
+		await cache.get("https://example.com/");
+		const record = (await storage.get("https://example.com"))!;
+
+		await Promise.all(
+			Array.from({ length: 20 }, (_, i) =>
+				storage.set({ ...record, status: 200 + i }),
+			),
+		);
+		expect(await readdir(directory)).toEqual([
+			"https%3A%2F%2Fexample.com.json",
+		]);
+		expect((await storage.get("https://example.com"))?.status).toBeGreaterThan(
+			199,
+		);
+	});
+
+	test("Missing, unreadable and foreign files read as no record", async () => {
+		const storage = new FileRobotsCacheStorage({
+			directory: join(directory, "not-created"),
+		});
+		expect(await storage.get("https://example.com")).toBeUndefined();
+		expect(await storage.delete("https://example.com")).toBe(false);
+
+		const inside = new FileRobotsCacheStorage({ directory });
+		await writeFile(join(directory, "https%3A%2F%2Fa.example.json"), "{");
+		expect(await inside.get("https://a.example")).toBeUndefined();
+	});
+
+	test("Custom match strategies are passed when restoring", async () => {
+		const clock = { now: 1_000_000 };
+		const storage = new FileRobotsCacheStorage({
+			directory,
+			now: () => clock.now,
+		});
+		const fetcher = new RobotsFetcher({
+			now: () => clock.now,
+			parseOptions: {
+				matchStrategy: new (class extends OriginalRobotsMatchStrategy {})(),
+			},
+			fetch: async () => new Response(ROBOTS_TXT),
+		});
+		await new RobotsCache({ fetcher, storage, now: () => clock.now }).get(
+			"https://example.com/",
+		);
+
+		// Without the strategy the record can't be restored: fetched again
+		const { cache, requests } = createCache(clock, storage);
+		expect((await cache.get("https://example.com/")).status).toBe("miss");
+		expect(requests).toHaveLength(1);
+
+		await storage.delete("https://example.com");
+		await new RobotsCache({ fetcher, storage, now: () => clock.now }).get(
+			"https://example.com/",
+		);
+		expect(
+			(await storage.get("https://example.com"))?.robots.matchStrategy,
+		).toBeNull();
+		const restored = createCache(clock, storage, undefined, {
+			matchStrategy: new OriginalRobotsMatchStrategy(),
+		});
+		expect((await restored.cache.get("https://example.com/")).status).toBe(
+			"hit",
+		);
+	});
+});
+
+describe("RobotsCacheStorage_Compact", () => {
+	test("Compaction removes expired, broken and leftover files", async () => {
+		const clock = { now: 1_000_000 };
+		const storage = new FileRobotsCacheStorage({
+			directory,
+			ttl: DAY,
+			now: () => clock.now,
+		});
+		const { cache } = createCache(clock, storage);
+		await cache.get("https://old.example/");
+		clock.now += DAY / 2;
+		await cache.get("https://new.example/");
+
+		const old = (await storage.get("https://old.example"))!;
+		await writeFile(
+			join(directory, "https%3A%2F%2Foutdated.example.json"),
+			JSON.stringify({
+				...old,
+				origin: "https://outdated.example",
+				robots: { ...old.robots, version: 0 },
+			} satisfies RobotsCacheRecord),
+		);
+		await writeFile(join(directory, "https%3A%2F%2Fbroken.example.json"), "");
+		await writeFile(join(directory, "misnamed.json"), JSON.stringify(old));
+		await writeFile(join(directory, "README"), "not a record");
+		const abandoned = join(directory, "x.json.1.tmp");
+		await writeFile(abandoned, "{");
+		const seconds = (Date.now() - 2 * 60 * 60 * 1000) / 1000;
+		await utimes(abandoned, seconds, seconds);
+		await writeFile(join(directory, "y.json.2.tmp"), "{");
+
+		clock.now += DAY / 2;
+		expect(await storage.compact()).toEqual({
+			kept: 1,
+			removed: 4,
+			removedTempFiles: 1,
+		});
+		expect((await readdir(directory)).sort()).toEqual([
+			"README",
+			"https%3A%2F%2Fnew.example.json",
+			"y.json.2.tmp",
+		]);
+	});
+
+	test("Compacting a missing directory does nothing", async () => {
+		const storage = new FileRobotsCacheStorage({
+			directory: join(directory, "missing"),
+		});
+		expect(await storage.compact()).toEqual({
+			kept: 0,
+			removed: 0,
+			removedTempFiles: 0,
+		});
+	});
+});
+
+describe("RobotsCacheStorage_Custom", () => {
+	test("Any storage implementing the interface can be plugged in", async () => {
+		const records = new Map<string, string>();
+		const storage: RobotsCacheStorage = {
+			get: async (origin) => {
+				const json = records.get(origin);
+				return json === undefined ? undefined : JSON.parse(json);
+			},
+			set: async (record) => {
+				records.set(record.origin, JSON.stringify(record));
+			},
+			delete: async (origin) => records.delete(origin),
+		};
+		const clock = { now: 1_000_000 };
+		await createCache(clock, storage).cache.get("https://example.com/");
+		expect([...records.keys()]).toEqual(["https://example.com"]);
+
+		const restarted = createCache(clock, storage);
+		expect((await restarted.cache.get("https://example.com/")).status).toBe(
+			"hit",
+		);
+		expect(restarted.requests).toHaveLength(0);
+	});
+});
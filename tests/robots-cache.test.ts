@@ -0,0 +1,352 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	getRobotsOrigin,
+	K_MAX_CACHE_AGE,
+	RobotsCache,
+	RobotsFetcher,
+	type RobotsCacheOptions,
+} from "../src/index.js";
+
+const HOUR = 60 * 60 * 1000;
+
+type Reply = { status?: number; body?: string; headers?: HeadersInit } | Error;
+
+/**
+ * A cache over a stub fetch. Each origin answers with the replies queued for
+ * it in order, repeating the last one. The clock is advanced by hand.
+ */
+function createCache(
+	replies: Record<string, Reply[]>,
+	options: RobotsCacheOptions = {},
+) {
+	const clock = { now: 1_000_000 };
+	const requests: string[] = [];
+	const now = () => clock.now;
+	const fetcher = new RobotsFetcher({
+		now,
+		fetch: async (url) => {
+			requests.push(url);
+			const queue = replies[url] ?? [];
+			const reply = queue.length > 1 ? queue.shift() : queue[0];
+			if (reply === undefined) return new Response("", { status: 404 });
+			if (reply instanceof Error) throw reply;
+			return new Response(reply.body ?? "", {
+				status: reply.status ?? 200,
+				headers: reply.headers,
+			});
+		},
+	});
+	const cache = new RobotsCache({ fetcher, now, ...options });
+	return { cache, clock, requests };
+}
+
+const DISALLOW_PRIVATE = "User-agent: *\nDisallow: /private\n";
+
+describe("RobotsCache_Origin", () => {
+	test("Origins are keyed by scheme, host and port", () => {
+		expect(getRobotsOrigin("https://Example.com/a?b")).toBe(
+			"https://example.com",
+		);
+		expect(getRobotsOrigin("https://example.com:443/")).toBe(
+			"https://example.com",
+		);
+		expect(getRobotsOrigin("http://example.com:8080/")).toBe(
+			"http://example.com:8080",
+		);
+	});
+
+	test("URLs of the same origin share an entry", async () => {
+		const { cache, requests } = createCache({
+			"https://example.com/robots.txt": [{ body: DISALLOW_PRIVATE }],
+		});
+		const first = await cache.get("https://example.com/a");
+		const second = await cache.get("https://example.com/private/b");
+		expect(first.status).toBe("miss");
+		expect(second.status).toBe("hit");
+		expect(second.robots).toBe(first.robots);
+		expect(requests).toEqual(["https://example.com/robots.txt"]);
+
+		await cache.get("http://example.com/a");
+		await cache.get("https://example.com:8443/a");
+		expect(cache.size).toBe(3);
+		expect(requests).toHaveLength(3);
+	});
+
+	test("Invalid URLs are rejected", async () => {
+		const { cache } = createCache({});
+		await expect(cache.get("ftp://example.com/")).rejects.toThrow(
+			"Unsupported URL scheme",
+		);
+	});
+});
+
+describe("RobotsCache_Expiry", () => {
+	test("Without caching headers entries expire after 24 hours", async () => {
+		const { cache, clock, requests } = createCache({
+			"https://example.com/robots.txt": [{ body: DISALLOW_PRIVATE }],
+		});
+		const { entry } = await cache.get("https://example.com/");
+		expect(entry.expiresAt).toBe(clock.now + K_MAX_CACHE_AGE);
+
+		clock.now += K_MAX_CACHE_AGE - 1;
+		expect((await cache.get("https://example.com/")).status).toBe("hit");
+		clock.now += 1;
+		expect((await cache.get("https://example.com/")).status).toBe("miss");
+		expect(requests).toHaveLength(2);
+	});
+
+	test("Cache-Control max-age is honoured, less the Age", async () => {
+		const { cache, clock } = createCache({
+			"https://a.example/robots.txt": [
+				{ headers: { "cache-control": "public, max-age=3600" } },
+			],
+			"https://b.example/robots.txt": [
+				{ headers: { "cache-control": 'max-age="600"', age: "100" } },
+			],
+			"https://c.example/robots.txt": [
+				{ headers: { "cache-control": "max-age=604800" } },
+			],
+		});
+		const start = clock.now;
+		expect((await cache.get("https://a.example/")).entry.expiresAt).toBe(
+			start + HOUR,
+		);
+		expect((await cache.get("https://b.example/")).entry.expiresAt).toBe(
+			start + 500_000,
+		);
+		// Capped at 24 hours
+		expect((await cache.get("https://c.example/")).entry.expiresAt).toBe(
+			start + K_MAX_CACHE_AGE,
+		);
+	});
+
+	test("no-cache and no-store expire at once", async () => {
+		for (const cacheControl of ["no-cache", "private, no-store"]) {
+			const { cache, requests } = createCache({
+				"https://example.com/robots.txt": [
+					{ headers: { "cache-control": cacheControl } },
+				],
+			});
+			await cache.get("https://example.com/");
+			expect((await cache.get("https://example.com/")).status).toBe("miss");
+			expect(requests).toHaveLength(2);
+		}
+	});
+
+	test("Expires is relative to the Date header", async () => {
+		const date = new Date("2024-01-01T00:00:00Z");
+		const expires = new Date(date.getTime() + 2 * HOUR);
+		const { cache, clock } = createCache({
+			"https://a.example/robots.txt": [
+				{
+					headers: {
+						date: date.toUTCString(),
+						expires: expires.toUTCString(),
+					},
+				},
+			],
+			"https://b.example/robots.txt": [{ headers: { expires: "never" } }],
+			// max-age takes precedence over Expires
+			"https://c.example/robots.txt": [
+				{
+					headers: {
+						"cache-control": "max-age=60",
+						expires: expires.toUTCString(),
+					},
+				},
+			],
+		});
+		const start = clock.now;
+		expect((await cache.get("https://a.example/")).entry.expiresAt).toBe(
+			start + 2 * HOUR,
+		);
+		expect((await cache.get("https://b.example/")).entry.expiresAt).toBe(start);
+		expect((await cache.get("https://c.example/")).entry.expiresAt).toBe(
+			start + 60_000,
+		);
+	});
+
+	test("Missing robots.txt files are cached like found ones", async () => {
+		const { cache, requests } = createCache({
+			"https://example.com/robots.txt": [{ status: 404 }],
+		});
+		const first = await cache.get("https://example.com/");
+		expect(first.entry.result.outcome).toBe("unavailable");
+		expect((await cache.get("https://example.com/")).status).toBe("hit");
+		expect(requests).toHaveLength(1);
+	});
+});
+
+describe("RobotsCache_Stale", () => {
+	test("Server errors keep the previous robots.txt", async () => {
+		const { cache, clock, requests } = createCache(
+			{
+				"https://example.com/robots.txt": [
+					{ body: DISALLOW_PRIVATE },
+					{ status: 503 },
+					new TypeError("fetch failed"),
+					{ body: "User-agent: *\nDisallow: /other\n" },
+				],
+			},
+			{ unreachableRetryAge: 60_000 },
+		);
+		const fresh = await cache.get("https://example.com/");
+
+		clock.now += K_MAX_CACHE_AGE;
+		const failedAt = clock.now;
+		const stale = await cache.get("https://example.com/");
+		expect(stale.status).toBe("stale");
+		expect(stale.robots).toBe(fresh.robots);
+		expect(stale.entry.unreachableSince).toBe(failedAt);
+		expect(stale.entry.expiresAt).toBe(failedAt + 60_000);
+		expect(stale.robots.checkUrl("a", "https://example.com/x").allowed).toBe(
+			true,
+		);
+
+		clock.now += 60_000;
+		const still = await cache.get("https://example.com/");
+		expect(still.status).toBe("stale");
+		expect(still.entry.unreachableSince).toBe(failedAt);
+
+		clock.now += 60_000;
+		const recovered = await cache.get("https://example.com/");
+		expect(recovered.status).toBe("miss");
+		expect(recovered.entry.unreachableSince).toBeNull();
+		expect(
+			recovered.robots.checkUrl("a", "https://example.com/other").allowed,
+		).toBe(false);
+		expect(requests).toHaveLength(4);
+	});
+
+	test("Without a previous robots.txt server errors disallow everything", async () => {
+		const { cache, clock, requests } = createCache({
+			"https://example.com/robots.txt": [
+				{ status: 500 },
+				{ status: 500 },
+				{ body: DISALLOW_PRIVATE },
+			],
+		});
+		const first = await cache.get("https://example.com/");
+		expect(first.status).toBe("miss");
+		expect(first.entry.result.outcome).toBe("unreachable");
+		expect(first.robots.checkUrl("a", "https://example.com/").allowed).toBe(
+			false,
+		);
+		// Not fetched again before the retry age
+		expect((await cache.get("https://example.com/")).status).toBe("hit");
+		expect(requests).toHaveLength(1);
+
+		clock.now += 5 * 60 * 1000;
+		const second = await cache.get("https://example.com/");
+		expect(second.entry.unreachableSince).toBe(first.entry.unreachableSince);
+
+		clock.now += 5 * 60 * 1000;
+		const third = await cache.get("https://example.com/");
+		expect(third.robots.checkUrl("a", "https://example.com/").allowed).toBe(
+			true,
+		);
+	});
+
+	test("The 30-day unreachable limit carries over between fetches", async () => {
+		const { cache, clock } = createCache({
+			"https://example.com/robots.txt": [{ status: 503 }],
+		});
+		const first = await cache.get("https://example.com/");
+		clock.now += 30 * 24 * HOUR;
+		const later = await cache.get("https://example.com/");
+		expect(later.entry.result.reason).toBe("unreachable-too-long");
+		expect(later.entry.unreachableSince).toBe(first.entry.unreachableSince);
+		expect(later.robots.checkUrl("a", "https://example.com/").allowed).toBe(
+			true,
+		);
+	});
+});
+
+describe("RobotsCache_Concurrency", () => {
+	test("Concurrent lookups of an origin share one fetch", async () => {
+		const { cache, requests } = createCache({
+			"https://example.com/robots.txt": [{ body: DISALLOW_PRIVATE }],
+		});
+		const results = await Promise.all([
+			cache.get("https://example.com/a"),
+			cache.get("https://example.com/b"),
+			cache.get("https://example.com/c"),
+			cache.get("https://other.example/"),
+		]);
+		expect(requests).toEqual([
+			"https://example.com/robots.txt",
+			"https://other.example/robots.txt",
+		]);
+		expect(results[1]?.robots).toBe(results[0]!.robots);
+		expect(results[2]?.robots).toBe(results[0]!.robots);
+
+		// The shared fetch is forgotten once done
+		cache.clear();
+		await cache.get("https://example.com/a");
+		expect(requests).toHaveLength(3);
+	});
+});
+
+describe("RobotsCache_Eviction", () => {
+	test("The least recently used origins are evicted beyond maxEntries", async () => {
+		const { cache, requests } = createCache({}, { maxEntries: 2 });
+		await cache.get("https://a.example/");
+		await cache.get("https://b.example/");
+		await cache.get("https://a.example/");
+		await cache.get("https://c.example/");
+
+		expect(cache.size).toBe(2);
+		expect(cache.peek("https://a.example/")).toBeDefined();
+		expect(cache.peek("https://b.example/")).toBeUndefined();
+		expect(cache.peek("https://c.example/")).toBeDefined();
+		expect(requests).toHaveLength(3);
+	});
+
+	test("Entries are evicted beyond maxSize bytes of robots.txt", async () => {
+		const body = "User-agent: *\nDisallow: /\n"; // 26 bytes
+		const { cache } = createCache(
+			{
+				"https://a.example/robots.txt": [{ body }],
+				"https://b.example/robots.txt": [{ body }],
+				"https://c.example/robots.txt": [{ body: body + body + body }],
+			},
+			{ maxSize: 60 },
+		);
+		await cache.get("https://a.example/");
+		await cache.get("https://b.example/");
+		expect(cache.bodySize).toBe(52);
+
+		// Too large to share: everything else goes, the new entry stays
+		await cache.get("https://c.example/");
+		expect(cache.size).toBe(1);
+		expect(cache.bodySize).toBe(78);
+		expect(cache.peek("https://c.example/")).toBeDefined();
+	});
+
+	test("delete() and clear() remove entries", async () => {
+		const { cache } = createCache({
+			"https://a.example/robots.txt": [{ body: DISALLOW_PRIVATE }],
+		});
+		await cache.get("https://a.example/");
+		await cache.get("https://b.example/");
+		expect(cache.delete("https://a.example/x")).toBe(true);
+		expect(cache.delete("https://a.example/x")).toBe(false);
+		expect(cache.bodySize).toBe(0);
+		cache.clear();
+		expect(cache.size).toBe(0);
+	});
+});
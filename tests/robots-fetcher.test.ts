@@ -0,0 +1,394 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	getRobotsTxtUrl,
+	K_MAX_UNREACHABLE_AGE,
+	RobotsFetcher,
+	type FetchFunction,
+} from "../src/index.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A stub fetch answering from a table of URL -> response factory, recording
+ * the requests it receives.
+ */
+function stubFetch(routes: Record<string, () => Response>) {
+	const requests: { url: string; init?: RequestInit }[] = [];
+	const fetch: FetchFunction = async (url, init) => {
+		requests.push({ url, init });
+		const route = routes[url];
+		if (!route) throw new TypeError(`fetch failed: ${url}`);
+		return route();
+	};
+	return { fetch, requests };
+}
+
+function redirect(location: string, status = 301): () => Response {
+	return () => new Response(null, { status, headers: { location } });
+}
+
+describe("RobotsFetcher_Url", () => {
+	test("The robots.txt URL keeps scheme, host and port", () => {
+		expect(getRobotsTxtUrl("https://example.com/a/b?c#d")).toBe(
+			"https://example.com/robots.txt",
+		);
+		expect(getRobotsTxtUrl("http://user:pw@Example.COM:8080/x")).toBe(
+			"http://example.com:8080/robots.txt",
+		);
+		expect(getRobotsTxtUrl("https://example.com:443/")).toBe(
+			"https://example.com/robots.txt",
+		);
+	});
+
+	test("Invalid and non-http URLs are rejected", () => {
+		expect(() => getRobotsTxtUrl("not a url")).toThrow("Invalid URL");
+		expect(() => getRobotsTxtUrl("ftp://example.com/")).toThrow(
+			"Unsupported URL scheme",
+		);
+	});
+});
+
+describe("RobotsFetcher_Status", () => {
+	test("2xx responses are parsed", async () => {
+		const { fetch, requests } = stubFetch({
+			"https://example.com/robots.txt": () =>
+				new Response("User-agent: *\nDisallow: /private\n"),
+		});
+		const fetcher = new RobotsFetcher({ fetch, userAgent: "MyBot/1.0" });
+		const result = await fetcher.fetch("https://example.com/some/page");
+
+		expect(result.outcome).toBe("success");
+		expect(result.reason).toBe("ok");
+		expect(result.status).toBe(200);
+		expect(result.robotsUrl).toBe("https://example.com/robots.txt");
+		expect(result.bodySize).toBe(33);
+		expect(result.unreachableSince).toBeNull();
+		expect(
+			result.robots.checkUrl("MyBot", "https://example.com/private").allowed,
+		).toBe(false);
+
+		const headers = new Headers(requests[0]?.init?.headers);
+		expect(headers.get("user-agent")).toBe("MyBot/1.0");
+		expect(requests[0]?.init?.redirect).toBe("manual");
+	});
+
+	test("4xx responses allow everything", async () => {
+		for (const status of [401, 403, 404, 410]) {
+			const { fetch } = stubFetch({
+				"https://example.com/robots.txt": () =>
+					new Response("User-agent: *\nDisallow: /\n", { status }),
+			});
+			const result = await new RobotsFetcher({ fetch }).fetch(
+				"https://example.com/",
+			);
+			expect(result.outcome).toBe("unavailable");
+			expect(result.reason).toBe("client-error");
+			expect(result.status).toBe(status);
+			expect(
+				result.robots.checkUrl("MyBot", "https://example.com/").allowed,
+			).toBe(true);
+		}
+	});
+
+	test("5xx responses and 429 disallow everything", async () => {
+		for (const status of [500, 503, 429]) {
+			const { fetch } = stubFetch({
+				"https://example.com/robots.txt": () => new Response("", { status }),
+			});
+			const result = await new RobotsFetcher({ fetch, now: () => 1000 }).fetch(
+				"https://example.com/",
+			);
+			expect(result.outcome).toBe("unreachable");
+			expect(result.reason).toBe("server-error");
+			expect(result.unreachableSince).toBe(1000);
+			expect(
+				result.robots.checkUrl("MyBot", "https://example.com/").allowed,
+			).toBe(false);
+		}
+	});
+
+	test("Network errors disallow everything", async () => {
+		const { fetch } = stubFetch({});
+		const result = await new RobotsFetcher({ fetch }).fetch(
+			"https://example.com/",
+		);
+		expect(result.outcome).toBe("unreachable");
+		expect(result.reason).toBe("network-error");
+		expect(result.status).toBe(0);
+		expect(result.headers).toBeNull();
+		expect(result.error).toBeInstanceOf(TypeError);
+		expect(
+			result.robots.checkUrl("MyBot", "https://example.com/").allowed,
+		).toBe(false);
+	});
+
+	test("After 30 days unreachable, the robots.txt counts as unavailable", async () => {
+		const { fetch } = stubFetch({
+			"https://example.com/robots.txt": () => new Response("", { status: 503 }),
+		});
+		const now = 100 * DAY;
+		const fetcher = new RobotsFetcher({ fetch, now: () => now });
+
+		const recent = await fetcher.fetch("https://example.com/", {
+			unreachableSince: now - 29 * DAY,
+		});
+		expect(recent.outcome).toBe("unreachable");
+		expect(recent.unreachableSince).toBe(now - 29 * DAY);
+
+		const old = await fetcher.fetch("https://example.com/", {
+			unreachableSince: now - K_MAX_UNREACHABLE_AGE,
+		});
+		expect(old.outcome).toBe("unavailable");
+		expect(old.reason).toBe("unreachable-too-long");
+		expect(old.unreachableSince).toBe(now - K_MAX_UNREACHABLE_AGE);
+		expect(old.robots.checkUrl("MyBot", "https://example.com/").allowed).toBe(
+			true,
+		);
+	});
+});
+
+describe("RobotsFetcher_Redirects", () => {
+	test("Redirects are followed, also to other hosts", async () => {
+		const { fetch } = stubFetch({
+			"http://example.com/robots.txt": redirect(
+				"https://example.com/robots.txt",
+			),
+			"https://example.com/robots.txt": redirect("/robots-v2.txt", 302),
+			"https://example.com/robots-v2.txt": redirect(
+				"https://cdn.example.net/robots.txt",
+				307,
+			),
+			"https://cdn.example.net/robots.txt": () =>
+				new Response("User-agent: *\nDisallow: /cdn\n"),
+		});
+		const result = await new RobotsFetcher({ fetch }).fetch(
+			"http://example.com/page",
+		);
+		expect(result.outcome).toBe("success");
+		expect(result.robotsUrl).toBe("http://example.com/robots.txt");
+		expect(result.finalUrl).toBe("https://cdn.example.net/robots.txt");
+		expect(result.redirects).toEqual([
+			"https://example.com/robots.txt",
+			"https://example.com/robots-v2.txt",
+			"https://cdn.example.net/robots.txt",
+		]);
+	});
+
+	test("More than five redirects count as unavailable", async () => {
+		const routes: Record<string, () => Response> = {};
+		for (let i = 0; i < 6; i++) {
+			routes[`https://example.com/r${i}`] = redirect(
+				`https://example.com/r${i + 1}`,
+			);
+		}
+		routes["https://example.com/robots.txt"] = redirect("/r0");
+		routes["https://example.com/r6"] = () => new Response("User-agent: *\n");
+
+		const { fetch } = stubFetch(routes);
+		const result = await new RobotsFetcher({ fetch }).fetch(
+			"https://example.com/",
+		);
+		expect(result.outcome).toBe("unavailable");
+		expect(result.reason).toBe("too-many-redirects");
+		expect(result.redirects).toHaveLength(5);
+
+		const patient = await new RobotsFetcher({ fetch, maxRedirects: 7 }).fetch(
+			"https://example.com/",
+		);
+		expect(patient.outcome).toBe("success");
+		expect(patient.redirects).toHaveLength(7);
+	});
+
+	test("Redirects without a usable location count as unavailable", async () => {
+		for (const response of [
+			() => new Response(null, { status: 301 }),
+			redirect("ftp://example.com/robots.txt"),
+		]) {
+			const { fetch } = stubFetch({
+				"https://example.com/robots.txt": response,
+			});
+			const result = await new RobotsFetcher({ fetch }).fetch(
+				"https://example.com/",
+			);
+			expect(result.outcome).toBe("unavailable");
+			expect(result.reason).toBe("invalid-redirect");
+		}
+	});
+
+	test("Redirects that can't be followed are not server errors", async () => {
+		// What browsers and undici return for redirect: 'manual'
+		const opaqueRedirect = () =>
+			Object.defineProperties(new Response(null), {
+				status: { value: 0 },
+				type: { value: "opaqueredirect" },
+			});
+		for (const response of [
+			() => new Response(null, { status: 304 }),
+			redirect("https://example.com/other.txt", 300),
+			opaqueRedirect,
+		]) {
+			const { fetch } = stubFetch({
+				"https://example.com/robots.txt": response,
+			});
+			const result = await new RobotsFetcher({ fetch }).fetch(
+				"https://example.com/",
+				{ unreachableSince: 1 },
+			);
+			expect(result.outcome).toBe("unavailable");
+			expect(result.reason).toBe("invalid-redirect");
+			expect(result.unreachableSince).toBeNull();
+			expect(result.robots.checkUrl("a", "https://example.com/x").allowed).toBe(
+				true,
+			);
+		}
+	});
+});
+
+describe("RobotsFetcher_BodySize", () => {
+	test("Only maxBodySize bytes are parsed", async () => {
+		const body = "User-agent: *\nDisallow: /a\nDisallow: /b\n";
+		let pulled = 0;
+		const { fetch } = stubFetch({
+			"https://example.com/robots.txt": () =>
+				new Response(
+					new ReadableStream({
+						pull(controller) {
+							// Endless body: one line per pull
+							controller.enqueue(
+								new TextEncoder().encode(pulled++ === 0 ? body : "# more\n"),
+							);
+						},
+					}),
+				),
+		});
+		const result = await new RobotsFetcher({ fetch, maxBodySize: 30 }).fetch(
+			"https://example.com/",
+		);
+		expect(result.outcome).toBe("success");
+		expect(result.isTruncated).toBe(true);
+		expect(result.bodySize).toBe(30);
+		expect(pulled).toBeLessThan(5);
+		// The line cut off at the limit is dropped
+		expect(result.robots.checkUrl("a", "https://example.com/a").allowed).toBe(
+			false,
+		);
+		expect(result.robots.checkUrl("a", "https://example.com/b").allowed).toBe(
+			true,
+		);
+	});
+
+	test("A body of exactly maxBodySize bytes is not truncated", async () => {
+		const body = "User-agent: *\nDisallow: /a\n";
+		const { fetch } = stubFetch({
+			"https://example.com/robots.txt": () => new Response(body),
+		});
+		const result = await new RobotsFetcher({
+			fetch,
+			maxBodySize: body.length,
+		}).fetch("https://example.com/");
+		expect(result.isTruncated).toBe(false);
+		expect(result.bodySize).toBe(body.length);
+	});
+
+	test("A line ending just past maxBodySize is not a truncation", async () => {
+		const body = "User-agent: *\nDisallow: /a\n";
+		const fetchWithLimit = async (text: string, maxBodySize: number) => {
+			const { fetch } = stubFetch({
+				"https://example.com/robots.txt": () => new Response(text),
+			});
+			return new RobotsFetcher({ fetch, maxBodySize }).fetch(
+				"https://example.com/",
+			);
+		};
+
+		const result = await fetchWithLimit(body, body.length - 1);
+		expect(result.isTruncated).toBe(false);
+		expect(result.bodySize).toBe(body.length - 1);
+		expect(result.robots.checkUrl("a", "https://example.com/a").allowed).toBe(
+			false,
+		);
+
+		const crlf = "User-agent: *\r\nDisallow: /a\r\n";
+		expect((await fetchWithLimit(crlf, crlf.length - 2)).isTruncated).toBe(
+			false,
+		);
+		// Anything after the line ending is cut off
+		expect(
+			(await fetchWithLimit(body + "\n", body.length - 1)).isTruncated,
+		).toBe(true);
+		expect(
+			(await fetchWithLimit(crlf + "#", crlf.length - 2)).isTruncated,
+		).toBe(true);
+	});
+});
+
+describe("RobotsFetcher_Server", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	let origin: string;
+	let seenUserAgent: string | null = null;
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			fetch(request) {
+				const path = new URL(request.url).pathname;
+				seenUserAgent = request.headers.get("user-agent");
+				if (path === "/robots.txt") {
+					return new Response(null, {
+						status: 301,
+						headers: { location: "/moved.txt" },
+					});
+				}
+				if (path === "/moved.txt") {
+					return new Response("User-agent: TestBot\nDisallow: /secret\n");
+				}
+				return new Response("not found", { status: 404 });
+			},
+		});
+		origin = `http://localhost:${server.port}`;
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	test("Fetches through a real HTTP server with the default fetch", async () => {
+		const fetcher = new RobotsFetcher({ userAgent: "TestBot/1.0" });
+		const result = await fetcher.fetch(`${origin}/any/page`);
+		expect(result.outcome).toBe("success");
+		expect(result.finalUrl).toBe(`${origin}/moved.txt`);
+		expect(result.headers?.get("content-type")).toContain("text/plain");
+		expect(seenUserAgent).toBe("TestBot/1.0");
+		expect(result.robots.checkUrl("TestBot", `${origin}/secret`).allowed).toBe(
+			false,
+		);
+	});
+
+	test("Times out as a network error", async () => {
+		const slow: FetchFunction = (_url, init) =>
+			new Promise((_resolve, reject) => {
+				init?.signal?.addEventListener("abort", () =>
+					reject(init.signal!.reason),
+				);
+			});
+		const result = await new RobotsFetcher({ fetch: slow, timeout: 10 }).fetch(
+			`${origin}/`,
+		);
+		expect(result.outcome).toBe("unreachable");
+		expect(result.reason).toBe("network-error");
+	});
+});
@@ -0,0 +1,291 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	formatRobotsTxt,
+	parseRobotsTxtSyntaxTree,
+	ParsedRobots,
+	RobotsMatcher,
+	type RobotsFormatOptions,
+} from "../src/index.js";
+
+const messy =
+	"\uFEFF# Robots for example.com\r\n" +
+	"Sitemap:/sitemap.xml\r\n" +
+	"\r\n" +
+	"\r\n" +
+	"# Google\r\n" +
+	"user-agent:googlebot\r\n" +
+	"  disalow :/private/   # secret\r\n" +
+	"Allow /private/ok\r\n" +
+	"DISALLOW:\r\n" +
+	"# Bing\r\n" +
+	"User-Agent: Bingbot\r\n" +
+	"crawl-delay:5\r\n" +
+	"Disallow: /b\r\n" +
+	"\r\n" +
+	"User-agent: *\r\n" +
+	"\r\n" +
+	"user-agent: Other\r\n" +
+	"Disallow: /z\r\n" +
+	"Allow: /a\r\n" +
+	"garbage   here now  \r\n";
+
+describe("Formatter_Canonical", () => {
+	test("Keys, spacing, blank lines and comments are normalized", () => {
+		expect(formatRobotsTxt(messy)).toBe(
+			"# Robots for example.com\n" +
+				"Sitemap: /sitemap.xml\n" +
+				"\n" +
+				"# Google\n" +
+				"User-agent: googlebot\n" +
+				"Disallow: /private/ # secret\n" +
+				"Allow: /private/ok\n" +
+				"Disallow:\n" +
+				"\n" +
+				"# Bing\n" +
+				"User-agent: Bingbot\n" +
+				"crawl-delay: 5\n" +
+				"Disallow: /b\n" +
+				"\n" +
+				"User-agent: *\n" +
+				"User-agent: Other\n" +
+				"Disallow: /z\n" +
+				"Allow: /a\n" +
+				"garbage   here now\n",
+		);
+	});
+
+	test("Line endings can be chosen", () => {
+		const formatted = formatRobotsTxt("User-agent: *\rDisallow: /\n", {
+			lineEnding: "\r\n",
+		});
+		expect(formatted).toBe("User-agent: *\r\nDisallow: /\r\n");
+	});
+
+	test("Formatting is idempotent", () => {
+		const formatted = formatRobotsTxt(messy);
+		expect(formatRobotsTxt(formatted)).toBe(formatted);
+		const sorted = formatRobotsTxt(messy, { sortRules: true });
+		expect(formatRobotsTxt(sorted, { sortRules: true })).toBe(sorted);
+	});
+
+	test("A syntax tree can be formatted", () => {
+		expect(formatRobotsTxt(parseRobotsTxtSyntaxTree(messy))).toBe(
+			formatRobotsTxt(messy),
+		);
+	});
+
+	test("Empty input gives empty output", () => {
+		expect(formatRobotsTxt("")).toBe("");
+		expect(formatRobotsTxt("\n\r\n  \n")).toBe("");
+	});
+
+	test("Typos are only fixed if the parse options accept them", () => {
+		expect(formatRobotsTxt("disalow: /x\n")).toBe("Disallow: /x\n");
+		expect(
+			formatRobotsTxt("disalow: /x\n", { allowFrequentTypos: false }),
+		).toBe("disalow: /x\n");
+	});
+
+	test("Lines the parser only reads in part are kept as they are", () => {
+		const options = { maxLineLength: 16 };
+		// Adding the space would push the last character out of reach
+		expect(formatRobotsTxt("Disallow:/abcde\n", options)).toBe(
+			"Disallow:/abcde\n",
+		);
+		expect(formatRobotsTxt("  Disallow: /abcdefghij\n", options)).toBe(
+			"  Disallow: /abcdefghij\n",
+		);
+		expect(formatRobotsTxt("Disallow:/abcd\n", options)).toBe(
+			"Disallow: /abcd\n",
+		);
+	});
+
+	test("Syntax trees of byte input are rejected", () => {
+		const tree = parseRobotsTxtSyntaxTree(
+			new TextEncoder().encode("Disallow: /\n"),
+		);
+		expect(() => formatRobotsTxt(tree)).toThrow("text input");
+	});
+});
+
+describe("Formatter_SortRules", () => {
+	test("Runs of rules are sorted by pattern, Allow first", () => {
+		const formatted = formatRobotsTxt(
+			"User-agent: a\n" +
+				"Disallow: /b\n" +
+				"Disallow: /a\n" +
+				"Allow: /a\n" +
+				"# keep\n" +
+				"Disallow: /d\n" +
+				"Allow: /c\n",
+			{ sortRules: true },
+		);
+		expect(formatted).toBe(
+			"User-agent: a\n" +
+				"Allow: /a\n" +
+				"Disallow: /a\n" +
+				"Disallow: /b\n" +
+				"# keep\n" +
+				"Allow: /c\n" +
+				"Disallow: /d\n",
+		);
+	});
+});
+
+/**
+ * Build a random robots.txt from lines that exercise typos, spacing, missing
+ * colons, comments, grouping and line endings.
+ */
+function randomRobotsTxt(next: () => number): string {
+	const pick = <T>(items: readonly T[]): T => items[next() % items.length];
+	const agents = ["*", "Googlebot", "googlebot-image", "BingBot/2.0", "* x"];
+	const keys = {
+		agent: [
+			"User-agent",
+			"user-agent",
+			"useragent",
+			"User-Agent ",
+			"user agent",
+		],
+		allow: ["Allow", "allow", "ALLOW", "Allowance"],
+		disallow: ["Disallow", "disalow", "dissallow", "disallow "],
+	};
+	const patterns = [
+		"",
+		"/",
+		"/a",
+		"/a/",
+		"/a/b",
+		"/*.gif$",
+		"/a*b",
+		"/a$",
+		"/index.html",
+		"/a/index.htm",
+		"/café",
+		"/%61",
+	];
+	const separators = [":", ": ", " : ", "\t:\t", " "];
+	const endings = ["\n", "\r\n", "\r"];
+
+	let text = "";
+	const count = 1 + (next() % 14);
+	for (let i = 0; i < count; i++) {
+		const indent = pick(["", "", "  ", "\t"]);
+		const comment = pick(["", "", " # note", "#x"]);
+		let line: string;
+		switch (next() % 8) {
+			case 0:
+			case 1:
+				line = `${pick(keys.agent)}${pick(separators)}${pick(agents)}`;
+				break;
+			case 2:
+			case 3:
+				line = `${pick(keys.allow)}${pick(separators)}${pick(patterns)}`;
+				break;
+			case 4:
+			case 5:
+				line = `${pick(keys.disallow)}${pick(separators)}${pick(patterns)}`;
+				break;
+			case 6:
+				line = pick(["", "# comment", "Sitemap: /s.xml", "Crawl-delay: 3"]);
+				break;
+			default:
+				line = pick(["garbage", "a b c", ": /x", "Disallow /a /b"]);
+		}
+		text += indent + line + comment + pick(endings);
+	}
+	return text;
+}
+
+describe("Formatter_Semantics", () => {
+	const urls = [
+		"/",
+		"/a",
+		"/a/",
+		"/a/b",
+		"/a/bb",
+		"/ab",
+		"/x.gif",
+		"/a/x.gif?q",
+		"/index.html",
+		"/a/index.htm",
+		"/caf%C3%A9",
+		"/b",
+	].map((path) => `http://example.com${path}`);
+	const agentSets = [
+		"Googlebot",
+		"Googlebot-Image",
+		"Bingbot",
+		"OtherBot",
+		["Googlebot-Image", "Googlebot"],
+	];
+
+	/**
+	 * Check that the formatted robots.txt decides every URL like the original
+	 * for every agent, with both ParsedRobots and RobotsMatcher.
+	 */
+	function expectSameDecisions(
+		original: string,
+		options: RobotsFormatOptions,
+	): void {
+		const formatted = formatRobotsTxt(original, options);
+		const before = ParsedRobots.parse(original);
+		const after = ParsedRobots.parse(formatted);
+		const matcher = new RobotsMatcher();
+		for (const agents of agentSets) {
+			const expected = before.checkUrls(agents, urls);
+			const actual = after.checkUrls(agents, urls);
+			for (let i = 0; i < urls.length; i++) {
+				const context = { original, formatted, agents, url: urls[i] };
+				expect({ ...context, allowed: actual[i].allowed }).toEqual({
+					...context,
+					allowed: expected[i].allowed,
+				});
+				expect(actual[i].matchedRuleType).toBe(expected[i].matchedRuleType);
+				expect(matcher.allowedByRobots(formatted, agents, urls[i])).toBe(
+					matcher.allowedByRobots(original, agents, urls[i]),
+				);
+			}
+			const agent = Array.isArray(agents) ? agents[0] : agents;
+			expect(after.getCrawlDelay(agent).delay).toBe(
+				before.getCrawlDelay(agent).delay,
+			);
+		}
+		expect(after.getSitemaps().map((s) => s.url)).toEqual(
+			before.getSitemaps().map((s) => s.url),
+		);
+		expect(after.getExplicitAgents()).toEqual(before.getExplicitAgents());
+	}
+
+	test("Fixed fixture matches the same URLs", () => {
+		expectSameDecisions(messy, {});
+		expectSameDecisions(messy, { sortRules: true });
+	});
+
+	test("Random files match the same URLs for every agent", () => {
+		let seed = 7;
+		const next = () => {
+			seed = (seed * 1103515245 + 12345) % 2147483648;
+			return seed >> 8;
+		};
+		for (let i = 0; i < 300; i++) {
+			const original = randomRobotsTxt(next);
+			expectSameDecisions(original, {});
+			expectSameDecisions(original, { sortRules: true });
+		}
+	});
+});
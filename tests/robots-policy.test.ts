@@ -0,0 +1,215 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	ParsedRobots,
+	RobotsFetcher,
+	RobotsPolicy,
+	RobotsPolicyRegistry,
+} from "../src/index.js";
+
+const ROBOTS_A = ParsedRobots.parse("User-agent: *\nDisallow: /private\n");
+const ROBOTS_B = ParsedRobots.parse(
+	"User-agent: *\nDisallow: /\n\nUser-agent: MyBot\nAllow: /public\nDisallow: /\n",
+);
+
+describe("RobotsPolicy_Origin", () => {
+	test("URLs of the origin are checked", () => {
+		const policy = new RobotsPolicy("https://a.com/robots.txt", ROBOTS_A);
+		expect(policy.origin).toBe("https://a.com");
+
+		const result = policy.checkUrl("MyBot", "https://a.com/private/x");
+		expect(result.allowed).toBe(false);
+		expect(result.matchedPattern).toBe("/private");
+		expect(result.origin).toBe("https://a.com");
+		expect(result.isCrossOrigin).toBe(false);
+		expect(policy.isAllowed("MyBot", "https://A.COM:443/public")).toBe(true);
+	});
+
+	test("Scheme, host and port must all match", () => {
+		const policy = new RobotsPolicy("https://a.com", ROBOTS_A);
+		for (const url of [
+			"http://a.com/x",
+			"https://b.com/x",
+			"https://www.a.com/x",
+			"https://a.com:8443/x",
+			"ftp://a.com/x",
+			"//b.com/x",
+		]) {
+			expect(policy.isSameOrigin(url)).toBe(false);
+			expect(() => policy.checkUrl("MyBot", url)).toThrow(
+				"URL is not on the origin https://a.com of the robots.txt",
+			);
+		}
+	});
+
+	test("Relative URLs are resolved against the origin", () => {
+		const policy = new RobotsPolicy("https://a.com", ROBOTS_A);
+		expect(policy.isSameOrigin("/private")).toBe(true);
+		expect(policy.isAllowed("MyBot", "/private")).toBe(false);
+
+		const result = policy.checkUrl("MyBot", "private/x");
+		expect(result.url).toBe("private/x");
+		expect(result.allowed).toBe(false);
+	});
+
+	test("Cross-origin URLs can be flagged instead", () => {
+		const policy = new RobotsPolicy("https://a.com", ROBOTS_A, {
+			crossOrigin: "flag",
+		});
+		const results = policy.checkUrls("MyBot", [
+			"https://a.com/page",
+			"http://a.com/page",
+			"mailto:someone@a.com",
+			"https://a.com/private",
+		]);
+		expect(results.map((result) => result.allowed)).toEqual([
+			true,
+			false,
+			false,
+			false,
+		]);
+		expect(results.map((result) => result.isCrossOrigin)).toEqual([
+			false,
+			true,
+			true,
+			false,
+		]);
+		expect(results[1]).toEqual({
+			url: "http://a.com/page",
+			allowed: false,
+			matchingLine: 0,
+			matchedPattern: "",
+			matchedRuleType: "none",
+			matchedAgent: "",
+			matchedGroup: -1,
+			everSeenSpecificAgent: false,
+			origin: "http://a.com",
+			isCrossOrigin: true,
+		});
+		expect(results[2]?.origin).toBeNull();
+		expect(results[3]?.matchingLine).toBe(2);
+	});
+
+	test("Results match ParsedRobots for URLs of the origin", () => {
+		const policy = new RobotsPolicy("https://b.com", ROBOTS_B);
+		const urls = [
+			"https://b.com/public/x",
+			"https://b.com/x",
+			"https://b.com/",
+		];
+		for (const agents of ["MyBot", "OtherBot", ["OtherBot", "MyBot"]]) {
+			const expected = ROBOTS_B.checkUrls(agents, urls, { ignoreGlobal: true });
+			const actual = policy.checkUrls(agents, urls, { ignoreGlobal: true });
+			expect(actual).toEqual(
+				expected.map((result) => ({
+					...result,
+					origin: "https://b.com",
+					isCrossOrigin: false,
+				})),
+			);
+		}
+	});
+
+	test("Policies are bound to the robots.txt URL, not its redirect target", async () => {
+		const fetcher = new RobotsFetcher({
+			fetch: async (url) =>
+				url === "http://a.com/robots.txt"
+					? new Response(null, {
+							status: 301,
+							headers: { location: "https://cdn.net/robots.txt" },
+						})
+					: new Response("User-agent: *\nDisallow: /x\n"),
+		});
+		const policy = RobotsPolicy.fromFetchResult(
+			await fetcher.fetch("http://a.com/page"),
+		);
+		expect(policy.origin).toBe("http://a.com");
+		expect(policy.isAllowed("MyBot", "http://a.com/x")).toBe(false);
+	});
+
+	test("Invalid origins are rejected", () => {
+		expect(() => new RobotsPolicy("a.com", ROBOTS_A)).toThrow("Invalid URL");
+		expect(() => new RobotsPolicy("file:///robots.txt", ROBOTS_A)).toThrow(
+			"Unsupported URL scheme",
+		);
+	});
+});
+
+describe("RobotsPolicy_Registry", () => {
+	test("Each URL is checked against its own origin's robots.txt", () => {
+		const registry = new RobotsPolicyRegistry();
+		registry.set("https://a.com", ROBOTS_A);
+		registry.set("https://b.com/robots.txt", ROBOTS_B);
+		expect(registry.origins()).toEqual(["https://a.com", "https://b.com"]);
+
+		const results = registry.checkUrls("MyBot", [
+			"https://a.com/x",
+			"https://b.com/x",
+			"https://a.com/private",
+			"https://b.com/public",
+		]);
+		expect(results.map((result) => result.allowed)).toEqual([
+			true,
+			false,
+			false,
+			true,
+		]);
+		expect(results.map((result) => result.origin)).toEqual([
+			"https://a.com",
+			"https://b.com",
+			"https://a.com",
+			"https://b.com",
+		]);
+		expect(results[3]?.matchedAgent).toBe("mybot");
+	});
+
+	test("URLs of unregistered origins throw or are flagged", () => {
+		const registry = new RobotsPolicyRegistry();
+		registry.set("https://a.com", ROBOTS_A);
+		expect(() => registry.isAllowed("MyBot", "http://a.com/")).toThrow(
+			"No robots.txt registered for the URL: http://a.com/",
+		);
+		expect(() => registry.checkUrls("MyBot", ["https://a.com/", "/x"])).toThrow(
+			"No robots.txt registered",
+		);
+
+		const flagging = new RobotsPolicyRegistry({ crossOrigin: "flag" });
+		flagging.set("https://a.com", ROBOTS_A);
+		const [result] = flagging.checkUrls("MyBot", ["https://c.com/"]);
+		expect(result?.isCrossOrigin).toBe(true);
+		expect(result?.allowed).toBe(false);
+		expect(result?.origin).toBe("https://c.com");
+		expect(
+			flagging.get("https://a.com/x")?.isAllowed("MyBot", "http://x.com/"),
+		).toBe(false);
+	});
+
+	test("Policies can be added, replaced and removed", () => {
+		const registry = new RobotsPolicyRegistry();
+		const policy = registry.add(new RobotsPolicy("https://a.com", ROBOTS_A));
+		expect(registry.get("https://a.com/any/page")).toBe(policy);
+		expect(registry.get("https://b.com/")).toBeUndefined();
+		expect(registry.get("not a url")).toBeUndefined();
+
+		registry.set("https://a.com:443/", ROBOTS_B);
+		expect(registry.size).toBe(1);
+		expect(registry.isAllowed("OtherBot", "https://a.com/x")).toBe(false);
+
+		expect(registry.delete("https://a.com/x")).toBe(true);
+		expect(registry.delete("https://a.com/x")).toBe(false);
+		expect(registry.size).toBe(0);
+	});
+});
@@ -0,0 +1,283 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	K_SNAPSHOT_VERSION,
+	ParsedRobots,
+	YandexRobotsMatchStrategy,
+	type RobotsMatchStrategy,
+} from "../src/index.js";
+
+const robotstxt =
+	"Sitemap: /sitemap.xml\n" + // 1
+	"User-agent: *\n" + // 2
+	"Crawl-delay: 2\n" + // 3
+	"Disallow: /private\n" + // 4
+	"Allow: /private/index.html\n" + // 5
+	"\n" + // 6
+	"User-agent: Googlebot\n" + // 7
+	"User-agent: Googlebot-Image/1.0\n" + // 8
+	"Disallow: /tmp\n" + // 9
+	"Allow: /tmp/*.gif$\n" + // 10
+	"Disallow:\n" + // 11
+	"\n" + // 12
+	"User-agent: Bingbot\n" + // 13
+	"Crawl-delay: soon\n" + // 14
+	"Disallow: /bing\n" + // 15
+	"User-agent: googlebot\n" + // 16
+	"Disallow: /search\n" + // 17
+	"Sitemap: https://example.com/news.xml\n" + // 18
+	"User-agent: SlowBot\n" + // 19
+	"Crawl-delay: 0.5\n"; // 20
+
+const urls = [
+	"http://example.com/",
+	"http://example.com/private/",
+	"http://example.com/private/doc",
+	"http://example.com/tmp/a.gif",
+	"http://example.com/tmp/a.png",
+	"http://example.com/bing",
+	"http://example.com/search?q=1",
+];
+
+const agentSets = [
+	"Googlebot",
+	"Googlebot-Image",
+	"Bingbot",
+	"SlowBot",
+	"OtherBot",
+	["Bingbot", "Googlebot"],
+];
+
+/**
+ * Check that a restored ParsedRobots answers every query like the original.
+ */
+function expectSameBehavior(restored: ParsedRobots, original: ParsedRobots) {
+	for (const agents of agentSets) {
+		expect(restored.checkUrls(agents, urls)).toEqual(
+			original.checkUrls(agents, urls),
+		);
+		expect(restored.checkUrls(agents, urls, { ignoreGlobal: true })).toEqual(
+			original.checkUrls(agents, urls, { ignoreGlobal: true }),
+		);
+		for (const url of urls) {
+			expect(restored.explainUrl(agents, url)).toEqual(
+				original.explainUrl(agents, url),
+			);
+		}
+	}
+	for (const agent of ["Googlebot", "Bingbot", "SlowBot", "OtherBot"]) {
+		expect(restored.getCrawlDelay(agent)).toEqual(
+			original.getCrawlDelay(agent),
+		);
+		expect(restored.getGroups(agent)).toEqual(original.getGroups(agent));
+		expect(restored.hasSpecificAgent(agent)).toBe(
+			original.hasSpecificAgent(agent),
+		);
+	}
+	expect(restored.getGroups()).toEqual(original.getGroups());
+	expect(restored.getSitemaps("https://example.com/robots.txt")).toEqual(
+		original.getSitemaps("https://example.com/robots.txt"),
+	);
+	expect(restored.getExplicitAgents()).toEqual(original.getExplicitAgents());
+	expect(restored.toJSON()).toEqual(original.toJSON());
+}
+
+describe("Snapshot_JSON", () => {
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Snapshot lists each rule once with its line number", () => {
+		const snapshot = parsed.toJSON();
+		expect(snapshot.version).toBe(K_SNAPSHOT_VERSION);
+		expect(snapshot.matchStrategy).toBe("longest-match");
+		expect(snapshot.rules.map((rule) => rule.lineNumber)).toEqual([
+			4, 5, 5, 9, 10, 11, 15, 17,
+		]);
+		expect(snapshot.rules[2]).toEqual({
+			pattern: "/private/$",
+			lineNumber: 5,
+			isAllow: true,
+			isDerived: true,
+		});
+		expect(snapshot.globalRules).toEqual([0, 1, 2]);
+		expect(snapshot.agentRules).toEqual([
+			["googlebot", [3, 4, 5, 7]],
+			["googlebot-image", [3, 4, 5]],
+			["bingbot", [6]],
+		]);
+		expect(snapshot.explicitAgents).toEqual([
+			"googlebot",
+			"googlebot-image",
+			"bingbot",
+		]);
+		expect(snapshot.agentCrawlDelays).toEqual([
+			["bingbot", { lineNumber: 14, rawValue: "soon", seconds: null }],
+			["slowbot", { lineNumber: 20, rawValue: "0.5", seconds: 0.5 }],
+		]);
+		expect(snapshot.sitemaps).toEqual([
+			{ lineNumber: 1, value: "/sitemap.xml" },
+			{ lineNumber: 18, value: "https://example.com/news.xml" },
+		]);
+	});
+
+	test("Round-trips through JSON text", () => {
+		const restored = ParsedRobots.fromJSON(JSON.parse(JSON.stringify(parsed)));
+		expectSameBehavior(restored, parsed);
+	});
+
+	test("Round-trips through structured clone", () => {
+		const restored = ParsedRobots.fromJSON(structuredClone(parsed.toJSON()));
+		expectSameBehavior(restored, parsed);
+	});
+
+	test("Restored instances don't share state with the snapshot", () => {
+		const snapshot = parsed.toJSON();
+		const restored = ParsedRobots.fromJSON(snapshot);
+		snapshot.rules[0].pattern = "/changed";
+		snapshot.groups[0].userAgents[0].value = "changed";
+		expect(restored.getGroups()[0]?.rules[0]?.pattern).toBe("/private");
+		expect(restored.getGroups()[0]?.userAgents[0]?.value).toBe("*");
+	});
+
+	test("Empty robots.txt round-trips", () => {
+		const empty = ParsedRobots.parse("");
+		expectSameBehavior(ParsedRobots.fromJSON(empty.toJSON()), empty);
+	});
+});
+
+describe("Snapshot_MatchStrategy", () => {
+	test("Shipped strategies are restored by name", () => {
+		for (const name of [
+			"longest-match",
+			"original-1994",
+			"yandex",
+			"disallow-wins-ties",
+		] as const) {
+			const parsed = ParsedRobots.parse(robotstxt, { matchStrategy: name });
+			const snapshot = parsed.toJSON();
+			expect(snapshot.matchStrategy).toBe(name);
+			expectSameBehavior(ParsedRobots.fromJSON(snapshot), parsed);
+		}
+	});
+
+	test("Custom strategies have to be passed again", () => {
+		class PrefixStrategy implements RobotsMatchStrategy {
+			public matchAllow(path: string, pattern: string): number {
+				return path.startsWith(pattern) ? pattern.length : -1;
+			}
+			public matchDisallow(path: string, pattern: string): number {
+				return path.startsWith(pattern) ? pattern.length : -1;
+			}
+		}
+		// Subclasses of shipped strategies count as custom
+		class CustomYandex extends YandexRobotsMatchStrategy {}
+
+		for (const strategy of [new PrefixStrategy(), new CustomYandex()]) {
+			const parsed = ParsedRobots.parse(robotstxt, {
+				matchStrategy: strategy,
+			});
+			const snapshot = parsed.toJSON();
+			expect(snapshot.matchStrategy).toBeNull();
+			expect(() => ParsedRobots.fromJSON(snapshot)).toThrow(
+				"custom match strategy",
+			);
+			expectSameBehavior(ParsedRobots.fromJSON(snapshot, strategy), parsed);
+		}
+	});
+
+	test("The strategy can be replaced when restoring", () => {
+		const snapshot = ParsedRobots.parse(robotstxt).toJSON();
+		const restored = ParsedRobots.fromJSON(snapshot, "original-1994");
+		expect(restored.toJSON().matchStrategy).toBe("original-1994");
+		expectSameBehavior(
+			restored,
+			ParsedRobots.parse(robotstxt, { matchStrategy: "original-1994" }),
+		);
+	});
+});
+
+describe("Snapshot_Binary", () => {
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Round-trips through the binary form", () => {
+		const bytes = parsed.toBinary();
+		expect(bytes).toBeInstanceOf(Uint8Array);
+		expect(ParsedRobots.fromBinary(bytes).toJSON()).toEqual(parsed.toJSON());
+		expectSameBehavior(ParsedRobots.fromBinary(bytes), parsed);
+		expectSameBehavior(ParsedRobots.fromBinary(structuredClone(bytes)), parsed);
+	});
+
+	test("Binary form is smaller than the JSON text", () => {
+		const bytes = parsed.toBinary();
+		expect(bytes.length).toBeLessThan(JSON.stringify(parsed).length / 2);
+	});
+
+	test("Non-ASCII values and large line numbers survive", () => {
+		const lines = Array.from({ length: 70000 }, () => "# filler");
+		lines.push("User-agent: *", "Disallow: /café/\u{1F600}");
+		const large = ParsedRobots.parse(lines.join("\n"));
+		const restored = ParsedRobots.fromBinary(large.toBinary());
+		expect(restored.getGroups()[0]?.rules[0]).toEqual(
+			large.getGroups()[0]!.rules[0],
+		);
+		expect(restored.getGroups()[0]?.rules[0]?.lineNumber).toBe(70002);
+	});
+
+	test("Binary form can be read from a view into a larger buffer", () => {
+		const bytes = parsed.toBinary();
+		const buffer = new Uint8Array(bytes.length + 8);
+		buffer.set(bytes, 4);
+		const view = buffer.subarray(4, 4 + bytes.length);
+		expectSameBehavior(ParsedRobots.fromBinary(view), parsed);
+	});
+});
+
+describe("Snapshot_Errors", () => {
+	const parsed = ParsedRobots.parse(robotstxt);
+
+	test("Other versions are rejected", () => {
+		const snapshot = { ...parsed.toJSON(), version: K_SNAPSHOT_VERSION + 1 };
+		expect(() => ParsedRobots.fromJSON(snapshot)).toThrow(
+			`Unsupported ParsedRobots snapshot version: ${K_SNAPSHOT_VERSION + 1}`,
+		);
+
+		const bytes = parsed.toBinary();
+		bytes[4] = K_SNAPSHOT_VERSION + 1;
+		expect(() => ParsedRobots.fromBinary(bytes)).toThrow(
+			"Unsupported ParsedRobots snapshot version",
+		);
+	});
+
+	test("Rule indexes out of range are rejected", () => {
+		const snapshot = parsed.toJSON();
+		snapshot.globalRules.push(snapshot.rules.length);
+		expect(() => ParsedRobots.fromJSON(snapshot)).toThrow(
+			"Invalid ParsedRobots snapshot",
+		);
+	});
+
+	test("Corrupt binary data is rejected", () => {
+		const bytes = parsed.toBinary();
+		expect(() => ParsedRobots.fromBinary(bytes.subarray(0, 20))).toThrow(
+			"unexpected end of data",
+		);
+		expect(() => ParsedRobots.fromBinary(new Uint8Array([1, 2, 3, 4]))).toThrow(
+			"bad magic",
+		);
+		const trailing = new Uint8Array(bytes.length + 1);
+		trailing.set(bytes);
+		expect(() => ParsedRobots.fromBinary(trailing)).toThrow("trailing data");
+	});
+});
@@ -0,0 +1,214 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	RobotsParseHandler,
+	createRobotsStreamParser,
+	createRobotsTransformStream,
+	parseRobotsTxt,
+	parseRobotsTxtStream,
+	type LineMetadata,
+	type ParseOptions,
+} from "../src/index.js";
+
+/**
+ * Records every callback so that two parses can be compared.
+ */
+class RecordingHandler extends RobotsParseHandler {
+	events: string[] = [];
+
+	handleRobotsStart(): void {
+		this.events.push("start");
+	}
+	handleRobotsEnd(): void {
+		this.events.push("end");
+	}
+	handleUserAgent(lineNum: number, value: string): void {
+		this.events.push(`${lineNum} user-agent ${value}`);
+	}
+	handleAllow(lineNum: number, value: string): void {
+		this.events.push(`${lineNum} allow ${value}`);
+	}
+	handleDisallow(lineNum: number, value: string): void {
+		this.events.push(`${lineNum} disallow ${value}`);
+	}
+	handleSitemap(lineNum: number, value: string): void {
+		this.events.push(`${lineNum} sitemap ${value}`);
+	}
+	handleUnknownAction(lineNum: number, action: string, value: string): void {
+		this.events.push(`${lineNum} unknown ${action} ${value}`);
+	}
+	reportLineMetadata(lineNum: number, metadata: LineMetadata): void {
+		this.events.push(`${lineNum} metadata ${JSON.stringify(metadata)}`);
+	}
+}
+
+function parseWhole(
+	body: string | Uint8Array,
+	options: ParseOptions = {},
+): string[] {
+	const handler = new RecordingHandler();
+	parseRobotsTxt(body, handler, options);
+	return handler.events;
+}
+
+function parseChunks(chunks: (string | Uint8Array)[]): string[] {
+	const handler = new RecordingHandler();
+	const parser = createRobotsStreamParser(handler);
+	for (const chunk of chunks) {
+		parser.write(chunk);
+	}
+	parser.end();
+	return handler.events;
+}
+
+const kDosFile =
+	"\xEF\xBB\xBFUser-Agent: foo\r\n" +
+	"Allow: /some/path\r\n" +
+	"\r\n" +
+	"disalow: /caf\xE9 # comment\r\n" +
+	"Sitemap: https://example.com/s.xml\r" +
+	"User-Agent bar\n" +
+	"Disallow: /";
+
+describe("Stream_SameCallbacksAsWholeBody", () => {
+	test("Every two-chunk split of a string body", () => {
+		const expected = parseWhole(kDosFile);
+		for (let split = 0; split <= kDosFile.length; split++) {
+			expect(
+				parseChunks([kDosFile.slice(0, split), kDosFile.slice(split)]),
+			).toEqual(expected);
+		}
+	});
+
+	test("Every two-chunk split of a byte body", () => {
+		const bytes = new TextEncoder().encode(
+			"\uFEFFUser-agent: *\r\nDisallow: /café\r\nAllow: /ünï\r\n",
+		);
+		const expected = parseWhole(bytes);
+		for (let split = 0; split <= bytes.length; split++) {
+			expect(
+				parseChunks([bytes.subarray(0, split), bytes.subarray(split)]),
+			).toEqual(expected);
+		}
+	});
+
+	test("One character per chunk", () => {
+		expect(parseChunks(kDosFile.split(""))).toEqual(parseWhole(kDosFile));
+	});
+
+	test("CRLF split across chunks is a single line ending", () => {
+		const events = parseChunks(["User-agent: *\r", "\nDisallow: /\r", "\n"]);
+		expect(events).toContain("2 disallow /");
+		expect(events).toEqual(parseWhole("User-agent: *\r\nDisallow: /\r\n"));
+	});
+
+	test("BOM split across the first chunks is skipped", () => {
+		const events = parseChunks([
+			new Uint8Array([0xef]),
+			new Uint8Array([0xbb, 0xbf]),
+			new TextEncoder().encode("User-agent: foo\n"),
+		]);
+		expect(events).toContain("1 user-agent foo");
+	});
+
+	test("Long line split across chunks is truncated once", () => {
+		const longline = "disallow: /" + "a".repeat(2083 * 8) + "\nallow: /\n";
+		const chunks: string[] = [];
+		for (let i = 0; i < longline.length; i += 1000) {
+			chunks.push(longline.slice(i, i + 1000));
+		}
+		expect(parseChunks(chunks)).toEqual(parseWhole(longline));
+	});
+});
+
+describe("Stream_Lifecycle", () => {
+	test("handleRobotsStart is called on creation", () => {
+		const handler = new RecordingHandler();
+		createRobotsStreamParser(handler);
+		expect(handler.events).toEqual(["start"]);
+	});
+
+	test("Empty stream is parsed like an empty body", () => {
+		expect(parseChunks([])).toEqual(parseWhole(""));
+	});
+
+	test("Mixing string and byte chunks throws", () => {
+		const parser = createRobotsStreamParser(new RecordingHandler());
+		parser.write("User-agent: *\n");
+		expect(() => parser.write(new Uint8Array([0x41]))).toThrow();
+	});
+
+	test("Parser reports truncation and ignores further chunks", () => {
+		const handler = new RecordingHandler();
+		const parser = createRobotsStreamParser(handler, { maxBodySize: 20 });
+		parser.write("User-agent: *\nDisallow: /private\n");
+		expect(parser.isTruncated()).toBe(true);
+		parser.write("Disallow: /\n");
+		parser.end();
+		expect(handler.events).toEqual(
+			parseWhole("User-agent: *\nDisallow: /private\nDisallow: /\n", {
+				maxBodySize: 20,
+			}),
+		);
+		expect(handler.events.some((e) => e.includes("disallow"))).toBe(false);
+	});
+
+	test("Writing after end throws", () => {
+		const parser = createRobotsStreamParser(new RecordingHandler());
+		parser.end();
+		expect(() => parser.write("User-agent: *\n")).toThrow();
+	});
+});
+
+describe("Stream_Adapters", () => {
+	test("TransformStream parses and passes chunks through", async () => {
+		const handler = new RecordingHandler();
+		const chunks = ["User-agent: *\r", "\nDisallow: /x\n"];
+		const received: string[] = [];
+
+		await new ReadableStream<string>({
+			start(controller) {
+				for (const chunk of chunks) controller.enqueue(chunk);
+				controller.close();
+			},
+		})
+			.pipeThrough(createRobotsTransformStream<string>(handler))
+			.pipeTo(
+				new WritableStream({
+					write(chunk) {
+						received.push(chunk);
+					},
+				}),
+			);
+
+		expect(received).toEqual(chunks);
+		expect(handler.events).toEqual(parseWhole(chunks.join("")));
+	});
+
+	test("Async iterable source is parsed", async () => {
+		const encoder = new TextEncoder();
+		async function* source() {
+			yield encoder.encode("User-agent: *\r");
+			yield encoder.encode("\nDisallow: /x\n");
+		}
+
+		const handler = new RecordingHandler();
+		await parseRobotsTxtStream(source(), handler);
+		expect(handler.events).toEqual(
+			parseWhole(encoder.encode("User-agent: *\r\nDisallow: /x\n")),
+		);
+	});
+});
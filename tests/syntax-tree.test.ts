@@ -0,0 +1,290 @@
+// Copyright 2024 Google LLC
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, expect, test } from "bun:test";
+import {
+	DirectiveRegistry,
+	RobotsParsingReporter,
+	RobotsTagName,
+	parseRobotsTxt,
+	parseRobotsTxtSyntaxTree,
+	printRobotsTxtSyntaxTree,
+	type ParseOptions,
+	type RobotsSyntaxLine,
+} from "../src/index.js";
+
+/**
+ * The text of each span of a line, for compact expectations.
+ */
+function spans(line: RobotsSyntaxLine | undefined) {
+	return {
+		key: line?.key?.text ?? null,
+		separator: line?.separator?.text ?? null,
+		value: line?.value?.text ?? null,
+		comment: line?.comment?.text ?? null,
+	};
+}
+
+describe("SyntaxTree_Spans", () => {
+	test("Key, separator, value and comment spans", () => {
+		const tree = parseRobotsTxtSyntaxTree(
+			"  disalow :\t/private/  # keep out\n",
+		);
+		const line = tree.lines[0]!;
+		expect(spans(line)).toEqual({
+			key: "disalow",
+			separator: " :\t",
+			value: "/private/",
+			comment: "# keep out",
+		});
+		expect(line.key).toEqual({ start: 2, end: 9, text: "disalow" });
+		expect(line.value?.start).toBe(12);
+		expect(line.comment?.start).toBe(23);
+		expect(line.tagName).toBe(RobotsTagName.Disallow);
+		expect(line.metadata.isAcceptableTypo).toBe(true);
+		expect(line.metadata.hasComment).toBe(true);
+	});
+
+	test("Offsets are relative to the whole source", () => {
+		const source = "User-agent: *\r\nAllow: /a\n";
+		const tree = parseRobotsTxtSyntaxTree(source);
+		for (const line of tree.lines) {
+			for (const span of [line.key, line.separator, line.value]) {
+				if (span) {
+					expect(source.slice(span.start, span.end)).toBe(span.text);
+				}
+			}
+		}
+		expect(tree.lines[1]?.start).toBe(15);
+		expect(tree.lines[1]?.value).toEqual({ start: 22, end: 24, text: "/a" });
+	});
+
+	test("Empty values and missing colons", () => {
+		const tree = parseRobotsTxtSyntaxTree(
+			"Disallow:\nDisallow /path\nDisallow / path\n: /x\n",
+		);
+		expect(spans(tree.lines[0])).toEqual({
+			key: "Disallow",
+			separator: ":",
+			value: "",
+			comment: null,
+		});
+		expect(spans(tree.lines[1])).toEqual({
+			key: "Disallow",
+			separator: " ",
+			value: "/path",
+			comment: null,
+		});
+		expect(tree.lines[1]?.metadata.isMissingColonSeparator).toBe(true);
+		// Neither three words nor an empty key are directives
+		expect(spans(tree.lines[2]).key).toBeNull();
+		expect(spans(tree.lines[3]).key).toBeNull();
+		expect(tree.lines[3]?.tagName).toBe(RobotsTagName.Unknown);
+	});
+
+	test("Missing colons are not accepted in strict mode", () => {
+		const tree = parseRobotsTxtSyntaxTree("Disallow /path\n", {
+			allowWhitespaceSeparator: false,
+		});
+		expect(spans(tree.lines[0]).key).toBeNull();
+	});
+
+	test("Comment-only and empty lines", () => {
+		const tree = parseRobotsTxtSyntaxTree("# hello\n\n   \n");
+		expect(spans(tree.lines[0])).toEqual({
+			key: null,
+			separator: null,
+			value: null,
+			comment: "# hello",
+		});
+		expect(tree.lines[0]?.metadata.isComment).toBe(true);
+		expect(tree.lines[1]?.metadata.isEmpty).toBe(true);
+		expect(tree.lines[2]?.raw).toBe("   ");
+	});
+
+	test("Spans stop where the parser stops reading a long line", () => {
+		const tree = parseRobotsTxtSyntaxTree("Disallow: /abcdefgh\n", {
+			maxLineLength: 15,
+		});
+		const line = tree.lines[0]!;
+		expect(line.raw).toBe("Disallow: /abcdefgh");
+		expect(line.value?.text).toBe("/abc");
+		expect(line.metadata.isLineTooLong).toBe(true);
+	});
+});
+
+describe("SyntaxTree_Lossless", () => {
+	const sources = [
+		"",
+		"\n",
+		"User-agent: *\nDisallow: /\n",
+		"User-agent: *\r\nDisallow: /\r\n",
+		"User-agent: *\rDisallow: /\r",
+		"User-agent: *\n\r\r\n\n\rAllow: /a",
+		"ï»¿User-agent: *\nDisallow: /bom\n",
+		"ï»User-agent: *\n",
+		"﻿User-agent: *\n",
+		"  User-agent:\t*   # all bots\n\tAllow :  /café/  \n",
+		"Disallow: /a#b#c\n#\n# comment only",
+		"useragent foo\nsitemap: https://example.com/s.xml\ncrawl-delay: 5\n",
+	];
+
+	test("Printing the tree reproduces the source", () => {
+		for (const source of sources) {
+			const tree = parseRobotsTxtSyntaxTree(source);
+			expect(printRobotsTxtSyntaxTree(tree)).toBe(source);
+		}
+	});
+
+	test("Random sources round-trip and match the parser's lines", () => {
+		const alphabet = ["\n", "\r", "\r\n", " ", "\t", "#", ":", "a", "/", "*"];
+		let seed = 42;
+		const next = () => {
+			seed = (seed * 1103515245 + 12345) % 2147483648;
+			return seed;
+		};
+		for (let i = 0; i < 500; i++) {
+			let source = "";
+			const length = next() % 30;
+			for (let j = 0; j < length; j++) {
+				source += alphabet[next() % alphabet.length];
+			}
+			const tree = parseRobotsTxtSyntaxTree(source);
+			expect(printRobotsTxtSyntaxTree(tree)).toBe(source);
+
+			const reporter = new RobotsParsingReporter();
+			parseRobotsTxt(source, reporter);
+			expect(tree.lines.length).toBe(reporter.lastLineSeen());
+		}
+	});
+
+	test("Line endings are kept per line", () => {
+		const tree = parseRobotsTxtSyntaxTree("a: 1\r\nb: 2\rc: 3\nd: 4");
+		expect(tree.lines.map((line) => line.lineEnding)).toEqual([
+			"\r\n",
+			"\r",
+			"\n",
+			"",
+		]);
+	});
+
+	test("A byte order mark is kept apart from the first line", () => {
+		const tree = parseRobotsTxtSyntaxTree("ï»¿Allow: /\n");
+		expect(tree.bom).toBe("ï»¿");
+		expect(tree.lines[0]?.raw).toBe("Allow: /");
+		expect(tree.lines[0]?.start).toBe(3);
+
+		const kept = parseRobotsTxtSyntaxTree("ï»¿Allow: /\n", {
+			skipBom: false,
+		});
+		expect(kept.bom).toBe("");
+		expect(kept.lines[0]?.tagName).toBe(RobotsTagName.Unknown);
+	});
+
+	test("Bytes with invalid UTF-8 round-trip byte for byte", () => {
+		const bytes = new Uint8Array([
+			...[0xef, 0xbb, 0xbf],
+			...new TextEncoder().encode("User-agent: *\r\nDisallow: /caf"),
+			...[0xc3, 0xa9, 0x2f, 0xff, 0x0d, 0x0a],
+			...new TextEncoder().encode("Allow: /"),
+			...[0xc3, 0xa0, 0x0a],
+		]);
+		const tree = parseRobotsTxtSyntaxTree(bytes);
+		expect(tree.isBinary).toBe(true);
+		expect(tree.bom).toBe("\xef\xbb\xbf");
+		expect(printRobotsTxtSyntaxTree(tree)).toEqual(bytes);
+		expect(
+			printRobotsTxtSyntaxTree(parseRobotsTxtSyntaxTree(bytes.buffer)),
+		).toEqual(bytes);
+
+		// Offsets count bytes, and a trailing 0xa0 is not whitespace
+		const [, disallow, allow] = tree.lines;
+		expect(disallow?.start).toBe(18);
+		expect(disallow?.value).toEqual({
+			start: 28,
+			end: 36,
+			text: "/caf\xc3\xa9/\xff",
+		});
+		expect(allow?.start).toBe(38);
+		expect(allow?.value?.text).toBe("/\xc3\xa0");
+		expect(allow?.tagName).toBe(RobotsTagName.Allow);
+	});
+
+	test("Text input is not binary", () => {
+		const tree = parseRobotsTxtSyntaxTree("Allow: /\n");
+		expect(tree.isBinary).toBe(false);
+		expect(printRobotsTxtSyntaxTree(tree)).toBe("Allow: /\n");
+	});
+
+	test("Lines after the maximum body size are kept without spans", () => {
+		const source = "User-agent: *\nDisallow: /private\nAllow: /\n";
+		const tree = parseRobotsTxtSyntaxTree(source, { maxBodySize: 20 });
+		expect(printRobotsTxtSyntaxTree(tree)).toBe(source);
+		expect(tree.lines[0]?.tagName).toBe(RobotsTagName.UserAgent);
+		for (const line of tree.lines.slice(1)) {
+			expect(line.metadata.isTruncated).toBe(true);
+			expect(line.key).toBeNull();
+			expect(line.tagName).toBe(RobotsTagName.Unknown);
+		}
+	});
+});
+
+describe("SyntaxTree_Metadata", () => {
+	const source =
+		"User-agent: Googlebot\n" +
+		"disalow: /typo\n" +
+		"Allowance: /prefix\n" +
+		"Crawl-delay: 10 # slow\n" +
+		"Noindex: /x\n" +
+		"Sitemap: https://example.com/sitemap.xml\n" +
+		"garbage line here\n" +
+		"Disallow /nocolon\n";
+
+	const expectSameAsReporter = (options: ParseOptions) => {
+		const reporter = new RobotsParsingReporter(options);
+		parseRobotsTxt(source, reporter, options);
+		const tree = parseRobotsTxtSyntaxTree(source, options);
+		expect(tree.lines.map((line) => line.lineNum)).toEqual(
+			reporter.parseResults().map((result) => result.lineNum),
+		);
+		for (const result of reporter.parseResults()) {
+			const line = tree.lines[result.lineNum - 1]!;
+			expect(line.tagName).toBe(result.tagName);
+			expect(line.metadata).toEqual(result.metadata);
+		}
+	};
+
+	test("Tags and metadata match RobotsParsingReporter", () => {
+		expectSameAsReporter({});
+		expectSameAsReporter({
+			allowFrequentTypos: false,
+			exactKeyMatch: true,
+			allowWhitespaceSeparator: false,
+		});
+	});
+
+	test("Custom directives are tagged", () => {
+		const directives = new DirectiveRegistry();
+		directives.register({ name: "crawl-delay", scope: "group" });
+		expectSameAsReporter({ directives });
+		const tree = parseRobotsTxtSyntaxTree(source, { directives });
+		expect(tree.lines[3]?.tagName).toBe(RobotsTagName.Custom);
+		expect(spans(tree.lines[3])).toEqual({
+			key: "Crawl-delay",
+			separator: ": ",
+			value: "10",
+			comment: "# slow",
+		});
+	});
+});
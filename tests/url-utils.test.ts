@@ -13,7 +13,11 @@
 // limitations under the License.
 
 import { describe, expect, test } from "bun:test";
-import { getPathParamsQuery, maybeEscapePattern } from "../src/index.js";
+import {
+	getPathParamsQuery,
+	maybeEscapePattern,
+	maybeEscapePatternBytes,
+} from "../src/index.js";
 
 describe("TestGetPathParamsQuery", () => {
 	const testPath = (url: string, expectedPath: string) => {
@@ -119,3 +123,30 @@ describe("TestMaybeEscapePattern", () => {
 		testEscape("%aa", "%AA");
 	});
 });
+
+describe("TestMaybeEscapePatternBytes", () => {
+	const testEscape = (bytes: number[], expected: string) => {
+		const { escaped } = maybeEscapePatternBytes(new Uint8Array(bytes));
+		expect(escaped).toBe(expected);
+	};
+
+	test("No escaping needed for simple path", () => {
+		const { escaped, wasEscaped } = maybeEscapePatternBytes(
+			new TextEncoder().encode("/a/b/c"),
+		);
+		expect(escaped).toBe("/a/b/c");
+		expect(wasEscaped).toBe(false);
+	});
+
+	test("UTF-8 octets are percent-encoded", () => {
+		testEscape([0xc3, 0xa1], "%C3%A1");
+	});
+
+	test("Invalid UTF-8 octets are percent-encoded as-is", () => {
+		testEscape([0x2f, 0xff, 0x2f, 0xc3], "/%FF/%C3");
+	});
+
+	test("Lowercase percent encoding is uppercased", () => {
+		testEscape([0x25, 0x61, 0x61], "%AA");
+	});
+});